@@ -49,6 +49,16 @@ const Navigation: React.FC = () => {
                   Processing Status
                 </span>
               </Link>
+              
+              <Link href="/settings">
+                <span className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                  isActive('/settings') 
+                    ? 'border-blue-500 text-gray-900'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}>
+                  Settings
+                </span>
+              </Link>
             </div>
           </div>
           
@@ -136,6 +146,16 @@ const Navigation: React.FC = () => {
             </span>
           </Link>
           
+          <Link href="/settings">
+            <span className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
+              isActive('/settings')
+                ? 'bg-blue-50 border-blue-500 text-blue-700'
+                : 'border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700'
+            }`}>
+              Settings
+            </span>
+          </Link>
+          
           {session ? (
             <div className="border-t border-gray-200 pt-4 pb-3">
               <div className="flex items-center px-4">
@@ -59,7 +59,7 @@ export default function SetupGmailWatch() {
       
       <p className="mb-4">
         Set up Gmail push notifications to receive real-time updates when new emails arrive.
-        This needs to be done once every 7 days.
+        This needs to be done once; the server renews it before it expires.
       </p>
 
       <div className="mb-6">
@@ -97,7 +97,8 @@ export default function SetupGmailWatch() {
           process your emails in real-time without constantly polling the Gmail API.
         </p>
         <p className="mt-2">
-          The setup expires after 7 days, so you&apos;ll need to renew it periodically.
+          The setup expires after 7 days. The server renews it automatically a day before, and
+          the processing dashboard shows each account&apos;s expiry and last renewal.
         </p>
       </div>
     </div>
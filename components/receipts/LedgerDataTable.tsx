@@ -31,6 +31,12 @@ const LedgerDataTable: React.FC = () => {
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [pageSize, setPageSize] = useState<number>(10);
   
+  // Reprocessing
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [confidenceThreshold, setConfidenceThreshold] = useState<number>(60);
+  const [reprocessing, setReprocessing] = useState<boolean>(false);
+  const [reprocessMessage, setReprocessMessage] = useState<string | null>(null);
+  
   // Fetch ledger data
   const fetchLedgerData = async () => {
     setLoading(true);
@@ -117,6 +123,52 @@ const LedgerDataTable: React.FC = () => {
     setSelectedEntry(entry);
   };
   
+  // Queue receipts for reprocessing; each result arrives as a pending revision
+  const reprocessReceipts = async (selection: Record<string, any>) => {
+    setReprocessing(true);
+    setReprocessMessage(null);
+    
+    try {
+      const response = await fetch('/api/ledger/reprocess', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(selection)
+      });
+      const data = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to start reprocessing');
+      }
+      
+      setSelectedIds([]);
+      setReprocessMessage(`${data.message}. New results will show as revisions to review.`);
+    } catch (error) {
+      setReprocessMessage(error instanceof Error ? error.message : 'Failed to start reprocessing');
+    } finally {
+      setReprocessing(false);
+    }
+  };
+  
+  // The table's current filters, in the form /api/ledger/reprocess takes them
+  const currentFilters = () => ({
+    search: searchTerm || undefined,
+    startDate: dateRange[0] ? dateRange[0].toISOString().split('T')[0] : undefined,
+    endDate: dateRange[1] ? dateRange[1].toISOString().split('T')[0] : undefined
+  });
+  
+  const toggleSelected = (id: number) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id]);
+  };
+  
+  const allOnPageSelected = entries.length > 0 && entries.every(entry => selectedIds.includes(entry.id));
+  
+  const toggleAllOnPage = () => {
+    const pageIds = entries.map(entry => entry.id);
+    setSelectedIds(allOnPageSelected
+      ? selectedIds.filter(id => !pageIds.includes(id))
+      : [...selectedIds, ...pageIds.filter(id => !selectedIds.includes(id))]);
+  };
+  
   // Get confidence indicator class
   const getConfidenceClass = (confidence: number) => {
     if (confidence >= 80) return 'bg-green-500';
@@ -263,6 +315,49 @@ const LedgerDataTable: React.FC = () => {
         </form>
       </div>
 
+      {/* Reprocess controls */}
+      <div className="p-4 border-b border-gray-200 flex flex-col md:flex-row gap-3 md:items-center">
+        <span className="text-sm font-medium text-gray-700">Reprocess:</span>
+        <button
+          type="button"
+          className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 py-1 px-3 rounded-md text-sm disabled:opacity-50"
+          disabled={reprocessing || selectedIds.length === 0}
+          onClick={() => reprocessReceipts({ ids: selectedIds })}
+        >
+          Selected ({selectedIds.length})
+        </button>
+        <button
+          type="button"
+          className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 py-1 px-3 rounded-md text-sm disabled:opacity-50"
+          disabled={reprocessing}
+          onClick={() => reprocessReceipts({ filters: currentFilters() })}
+        >
+          All Matching Filters ({totalEntries})
+        </button>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 py-1 px-3 rounded-md text-sm disabled:opacity-50"
+            disabled={reprocessing}
+            onClick={() => reprocessReceipts({ belowConfidence: confidenceThreshold })}
+          >
+            Confidence Below
+          </button>
+          <input
+            type="number"
+            min={1}
+            max={100}
+            className="shadow-sm focus:ring-blue-500 focus:border-blue-500 w-20 sm:text-sm border-gray-300 rounded-md"
+            value={confidenceThreshold}
+            onChange={(e) => setConfidenceThreshold(parseInt(e.target.value, 10) || 0)}
+          />
+          <span className="text-sm text-gray-500">%</span>
+        </div>
+        {reprocessMessage && (
+          <p className="text-sm text-gray-600">{reprocessMessage}</p>
+        )}
+      </div>
+
       {/* Error message */}
       {error && (
         <div className="bg-red-50 p-4 border-b border-red-100">
@@ -290,6 +385,14 @@ const LedgerDataTable: React.FC = () => {
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                <th scope="col" className="pl-6 py-3">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all receipts on this page"
+                    checked={allOnPageSelected}
+                    onChange={toggleAllOnPage}
+                  />
+                </th>
                 <th 
                   scope="col" 
                   className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
@@ -363,23 +466,36 @@ const LedgerDataTable: React.FC = () => {
             <tbody className="bg-white divide-y divide-gray-200">
               {entries.map((entry) => (
                 <tr key={entry.id} className="hover:bg-gray-50">
+                  <td className="pl-6 py-4">
+                    <input
+                      type="checkbox"
+                      aria-label={`Select receipt ${entry.id}`}
+                      checked={selectedIds.includes(entry.id)}
+                      onChange={() => toggleSelected(entry.id)}
+                    />
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {formatDate(entry.transactionDate)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     {entry.merchantName}
+                    {!!entry.pendingRevisions && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 text-xs font-medium">
+                        Revision to review
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {formatCurrency(entry.totalAmount)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {formatCurrency(entry.taxAmount)}
+                    {entry.taxAmount !== null ? formatCurrency(entry.taxAmount) : '—'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {entry.lineItems.length}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {entry.paymentMethod}
+                    {entry.paymentMethod || '—'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
@@ -473,7 +589,15 @@ const LedgerDataTable: React.FC = () => {
       {selectedEntry && (
         <ReceiptDetailModal
           receipt={selectedEntry}
-          onClose={() => setSelectedEntry(null)}
+          onClose={() => {
+            setSelectedEntry(null);
+            // Pick up revisions reviewed or added while the modal was open
+            fetchLedgerData();
+          }}
+          onUpdated={(entry) => {
+            setSelectedEntry(entry);
+            fetchLedgerData();
+          }}
         />
       )}
     </div>
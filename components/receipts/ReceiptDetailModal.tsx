@@ -1,5 +1,14 @@
-import React, { useState } from 'react';
-import { LineItem } from '../../types/receipt-types';
+import React, { useEffect, useState } from 'react';
+import {
+  ConfidenceField,
+  DocumentSource,
+  FieldConfidence,
+  LedgerEntry,
+  LineItem,
+  ReceiptRevision,
+  ReprocessSource,
+  TextExtractionMethod
+} from '../../types/receipt-types';
 
 interface ReceiptDetailModalProps {
   receipt: {
@@ -7,9 +16,9 @@ interface ReceiptDetailModalProps {
     merchantName: string;
     transactionDate: string;
     totalAmount: number;
-    taxAmount: number;
-    subtotal: number;
-    paymentMethod: string;
+    taxAmount: number | null;
+    subtotal: number | null;
+    paymentMethod: string | null;
     lineItems: LineItem[];
     llmConfidence: number;
     llmExtractionIssues?: string[];
@@ -17,12 +26,128 @@ interface ReceiptDetailModalProps {
     createdAt: string;
     emailId: string;
     filename: string;
+    promptVersion?: string;
+    fieldConfidence?: FieldConfidence;
+    extractionMethod?: TextExtractionMethod;
+    ocrConfidence?: number;
+    source?: DocumentSource;
+    pageStart?: number;
+    pageEnd?: number;
+    documentHash?: string;
   };
   onClose: () => void;
+  // Called with the receipt's new values after a revision is kept
+  onUpdated?: (receipt: LedgerEntry) => void;
 }
 
-const ReceiptDetailModal: React.FC<ReceiptDetailModalProps> = ({ receipt, onClose }) => {
+const EXTRACTION_METHOD_LABELS: Record<TextExtractionMethod, string> = {
+  text_layer: 'PDF text layer',
+  layout: 'PDF text layer (layout)',
+  ocr: 'OCR',
+  html: 'HTML email body',
+  plain_text: 'Plain-text email body'
+};
+
+// Fields on which fewer extraction runs agreed than this are highlighted
+const UNCERTAIN_FIELD_CONFIDENCE = 100;
+
+// How often a running reprocess job is polled
+const REPROCESS_POLL_INTERVAL_MS = 2000;
+
+const ReceiptDetailModal: React.FC<ReceiptDetailModalProps> = ({ receipt, onClose, onUpdated }) => {
   const [showRawText, setShowRawText] = useState(false);
+  const [revisions, setRevisions] = useState<ReceiptRevision[]>([]);
+  const [reprocessSource, setReprocessSource] = useState<ReprocessSource>('text');
+  const [reprocessing, setReprocessing] = useState(false);
+  const [revisionError, setRevisionError] = useState<string | null>(null);
+  
+  // Bumped to load the revisions again after a reprocess
+  const [revisionsVersion, setRevisionsVersion] = useState(0);
+  
+  // Load the receipt's revisions
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        const response = await fetch(`/api/ledger/${receipt.id}/revisions`);
+        const data = await response.json();
+        
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to load revisions');
+        }
+        
+        setRevisions(data.data.revisions);
+      } catch (error) {
+        setRevisionError(error instanceof Error ? error.message : 'Failed to load revisions');
+      }
+    };
+    
+    fetchRevisions();
+  }, [receipt.id, revisionsVersion]);
+  
+  // Run classification and extraction again; the result arrives as a pending revision
+  const reprocess = async () => {
+    setReprocessing(true);
+    setRevisionError(null);
+    
+    try {
+      const response = await fetch('/api/ledger/reprocess', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [receipt.id], source: reprocessSource })
+      });
+      const data = await response.json();
+      
+      if (!data.success || !data.jobs || data.jobs.length === 0) {
+        throw new Error(data.error || 'Failed to start reprocessing');
+      }
+      
+      // Wait for the job to finish
+      const jobId = data.jobs[0].id;
+      let status = data.jobs[0].status;
+      let job;
+      while (status === 'queued' || status === 'running') {
+        await new Promise(resolve => setTimeout(resolve, REPROCESS_POLL_INTERVAL_MS));
+        const jobResponse = await fetch(`/api/jobs/${jobId}`);
+        job = (await jobResponse.json()).data;
+        status = job ? job.status : 'failed';
+      }
+      
+      if (status !== 'succeeded') {
+        throw new Error(job?.lastError || job?.result?.message || 'Reprocessing failed');
+      }
+      
+      setRevisionsVersion(version => version + 1);
+    } catch (error) {
+      setRevisionError(error instanceof Error ? error.message : 'Reprocessing failed');
+    } finally {
+      setReprocessing(false);
+    }
+  };
+  
+  // Keep a revision ('accept') or the current values ('reject')
+  const decideRevision = async (revisionId: number, action: 'accept' | 'reject') => {
+    setRevisionError(null);
+    
+    try {
+      const response = await fetch(`/api/ledger/${receipt.id}/revisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revisionId, action })
+      });
+      const data = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update revision');
+      }
+      
+      setRevisions(data.data.revisions);
+      if (action === 'accept' && onUpdated) {
+        onUpdated(data.data.receipt);
+      }
+    } catch (error) {
+      setRevisionError(error instanceof Error ? error.message : 'Failed to update revision');
+    }
+  };
   
   // Format currency
   const formatCurrency = (amount: number) => {
@@ -41,6 +166,71 @@ const ReceiptDetailModal: React.FC<ReceiptDetailModalProps> = ({ receipt, onClos
     });
   };
 
+  // Field-level confidence is only available for self-consistency extractions
+  const isUncertain = (field: ConfidenceField) => {
+    const confidence = receipt.fieldConfidence?.[field];
+    return confidence !== undefined && confidence < UNCERTAIN_FIELD_CONFIDENCE;
+  };
+  
+  const fieldClassName = (field: ConfidenceField) =>
+    isUncertain(field) ? 'rounded-md bg-yellow-50 ring-1 ring-yellow-300 p-2 -m-2' : '';
+  
+  const renderFieldConfidence = (field: ConfidenceField) =>
+    isUncertain(field) && (
+      <p className="text-xs text-yellow-700">
+        Uncertain: {receipt.fieldConfidence?.[field]}% of runs agree
+      </p>
+    );
+  
+  // Fields compared between the receipt and a revision
+  const describeValues = (values: Partial<ReceiptRevision>) => [
+    { label: 'Merchant', value: values.merchantName || '—' },
+    { label: 'Date', value: values.transactionDate ? formatDate(values.transactionDate) : '—' },
+    { label: 'Total', value: values.totalAmount != null ? formatCurrency(values.totalAmount) : '—' },
+    { label: 'Subtotal', value: values.subtotal != null ? formatCurrency(values.subtotal) : '—' },
+    { label: 'Tax', value: values.taxAmount != null ? formatCurrency(values.taxAmount) : '—' },
+    { label: 'Payment Method', value: values.paymentMethod || '—' },
+    {
+      label: 'Line Items',
+      value: (values.lineItems || []).map(item => `${item.quantity || 1} × ${item.name} ${formatCurrency(item.price)}`).join('; ') || 'None'
+    },
+    { label: 'Confidence', value: values.llmConfidence !== undefined ? `${values.llmConfidence}%` : '—' },
+    { label: 'Prompt Version', value: values.promptVersion || 'Unknown' }
+  ];
+  
+  const pendingRevisions = revisions.filter(revision => revision.status === 'pending');
+  const previousVersions = revisions.filter(revision => revision.status === 'superseded');
+  
+  // Before/after table of a pending revision, changed fields highlighted
+  const renderRevisionDiff = (revision: ReceiptRevision) => {
+    const before = describeValues(receipt);
+    const after = describeValues(revision);
+    
+    return (
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+            <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Current</th>
+            <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Revision</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {before.map((field, index) => {
+            const changed = field.value !== after[index].value;
+            return (
+              <tr key={field.label} className={changed ? 'bg-yellow-50' : ''}>
+                <td className="px-4 py-2 text-gray-500">{field.label}</td>
+                <td className={`px-4 py-2 ${changed ? 'text-red-700 line-through' : 'text-gray-900'}`}>{field.value}</td>
+                <td className={`px-4 py-2 ${changed ? 'text-green-700 font-medium' : 'text-gray-900'}`}>{after[index].value}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    );
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 overflow-y-auto">
       <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -59,29 +249,34 @@ const ReceiptDetailModal: React.FC<ReceiptDetailModalProps> = ({ receipt, onClos
         <div className="p-6">
           {/* Receipt summary */}
           <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
-            <div>
+            <div className={fieldClassName('merchantName')}>
               <h4 className="text-sm text-gray-500 font-medium">Merchant</h4>
               <p className="text-lg font-bold">{receipt.merchantName}</p>
+              {renderFieldConfidence('merchantName')}
             </div>
-            <div>
+            <div className={fieldClassName('transactionDate')}>
               <h4 className="text-sm text-gray-500 font-medium">Date</h4>
               <p className="text-lg">{formatDate(receipt.transactionDate)}</p>
+              {renderFieldConfidence('transactionDate')}
             </div>
-            <div>
+            <div className={fieldClassName('totalAmount')}>
               <h4 className="text-sm text-gray-500 font-medium">Total</h4>
               <p className="text-lg font-bold text-green-600">{formatCurrency(receipt.totalAmount)}</p>
+              {renderFieldConfidence('totalAmount')}
             </div>
             <div>
               <h4 className="text-sm text-gray-500 font-medium">Subtotal</h4>
-              <p className="text-lg">{formatCurrency(receipt.subtotal)}</p>
+              <p className="text-lg">{receipt.subtotal !== null ? formatCurrency(receipt.subtotal) : '—'}</p>
             </div>
-            <div>
+            <div className={fieldClassName('taxAmount')}>
               <h4 className="text-sm text-gray-500 font-medium">Tax</h4>
-              <p className="text-lg">{formatCurrency(receipt.taxAmount)}</p>
+              <p className="text-lg">{receipt.taxAmount !== null ? formatCurrency(receipt.taxAmount) : '—'}</p>
+              {renderFieldConfidence('taxAmount')}
             </div>
-            <div>
+            <div className={fieldClassName('paymentMethod')}>
               <h4 className="text-sm text-gray-500 font-medium">Payment Method</h4>
-              <p className="text-lg">{receipt.paymentMethod}</p>
+              <p className="text-lg">{receipt.paymentMethod || '—'}</p>
+              {renderFieldConfidence('paymentMethod')}
             </div>
           </div>
           
@@ -173,8 +368,8 @@ const ReceiptDetailModal: React.FC<ReceiptDetailModalProps> = ({ receipt, onClos
                   <span className="ml-2">{receipt.emailId}</span>
                 </div>
                 <div>
-                  <span className="text-gray-500">Filename:</span>
-                  <span className="ml-2">{receipt.filename}</span>
+                  <span className="text-gray-500">{receipt.source === 'email_body' ? 'Source:' : 'Filename:'}</span>
+                  <span className="ml-2">{receipt.source === 'email_body' ? 'Email body' : receipt.filename}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">Processed On:</span>
@@ -184,10 +379,118 @@ const ReceiptDetailModal: React.FC<ReceiptDetailModalProps> = ({ receipt, onClos
                   <span className="text-gray-500">Receipt ID:</span>
                   <span className="ml-2">{receipt.id}</span>
                 </div>
+                <div>
+                  <span className="text-gray-500">Prompt Version:</span>
+                  <span className="ml-2">{receipt.promptVersion || 'Unknown'}</span>
+                </div>
+                <div>
+                  <span className="text-gray-500">Text Source:</span>
+                  <span className="ml-2">
+                    {EXTRACTION_METHOD_LABELS[receipt.extractionMethod || 'text_layer']}
+                    {receipt.extractionMethod === 'ocr' && receipt.ocrConfidence !== undefined &&
+                      ` (${Math.round(receipt.ocrConfidence)}% confidence)`}
+                  </span>
+                </div>
+                {receipt.pageStart !== undefined && (
+                  <div>
+                    <span className="text-gray-500">Pages:</span>
+                    <span className="ml-2">
+                      {receipt.pageStart === receipt.pageEnd || receipt.pageEnd === undefined
+                        ? receipt.pageStart
+                        : `${receipt.pageStart}-${receipt.pageEnd}`}
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
           </div>
           
+          {/* Original document, when it was kept in the blob store */}
+          {receipt.documentHash && (
+            <div className="mb-4 flex space-x-4 text-sm">
+              <a
+                href={`/api/ledger/${receipt.id}/document`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:text-blue-800 font-medium"
+              >
+                View Original Document
+              </a>
+              <a
+                href={`/api/ledger/${receipt.id}/document?download=true`}
+                className="text-blue-600 hover:text-blue-800 font-medium"
+              >
+                Download
+              </a>
+            </div>
+          )}
+          
+          {/* Revisions from reprocessing, waiting for the user to choose */}
+          {pendingRevisions.map(revision => (
+            <div key={revision.id} className="mb-6">
+              <h4 className="text-sm text-gray-500 font-medium mb-2">
+                Revision from {formatDate(revision.createdAt)}
+                {revision.model && <span className="ml-2 text-xs text-gray-400">{revision.model}</span>}
+              </h4>
+              <div className="bg-gray-50 rounded-lg overflow-hidden">
+                {revision.isReceipt ? (
+                  renderRevisionDiff(revision)
+                ) : (
+                  <p className="px-4 py-3 text-sm text-red-700">
+                    The new run no longer classifies this document as a receipt ({revision.documentType || 'other'}).
+                  </p>
+                )}
+              </div>
+              <div className="flex justify-end space-x-3 mt-2">
+                <button
+                  className="px-3 py-1 bg-white border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  onClick={() => decideRevision(revision.id, 'reject')}
+                >
+                  Keep Current
+                </button>
+                {revision.isReceipt && (
+                  <button
+                    className="px-3 py-1 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+                    onClick={() => decideRevision(revision.id, 'accept')}
+                  >
+                    Use Revision
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          
+          {/* Values replaced by earlier revisions */}
+          {previousVersions.length > 0 && (
+            <div className="mb-6">
+              <h4 className="text-sm text-gray-500 font-medium mb-2">Previous Versions</h4>
+              <ul className="bg-gray-50 rounded-lg divide-y divide-gray-200 text-sm">
+                {previousVersions.map(revision => (
+                  <li key={revision.id} className="flex justify-between items-center px-4 py-2">
+                    <span>
+                      {revision.merchantName} · {revision.totalAmount !== undefined ? formatCurrency(revision.totalAmount) : '—'}
+                      <span className="ml-2 text-gray-500">
+                        {revision.promptVersion || 'Unknown prompt'}, replaced {revision.decidedAt ? formatDate(revision.decidedAt) : ''}
+                      </span>
+                    </span>
+                    <button
+                      className="text-blue-600 hover:text-blue-800 font-medium"
+                      onClick={() => decideRevision(revision.id, 'accept')}
+                    >
+                      Restore
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          
+          {revisionError && (
+            <div className="mb-6 bg-red-50 rounded-lg p-4">
+              <p className="text-sm text-red-700">{revisionError}</p>
+            </div>
+          )}
+          
           {/* Raw Text Toggle */}
           <div className="mb-2">
             <button
@@ -214,6 +517,26 @@ const ReceiptDetailModal: React.FC<ReceiptDetailModalProps> = ({ receipt, onClos
           
           {/* Actions */}
           <div className="flex justify-end space-x-3 mt-6">
+            {receipt.documentHash && (
+              <select
+                className="shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm border-gray-300 rounded-md"
+                value={reprocessSource}
+                onChange={(e) => setReprocessSource(e.target.value as ReprocessSource)}
+                disabled={reprocessing}
+              >
+                <option value="text">From stored text</option>
+                <option value="document">From original document</option>
+              </select>
+            )}
+            <button
+              className={`px-4 py-2 bg-white border border-blue-300 rounded-md shadow-sm text-sm font-medium text-blue-700 focus:outline-none ${
+                reprocessing ? 'opacity-50 cursor-not-allowed' : 'hover:bg-blue-50'
+              }`}
+              onClick={reprocess}
+              disabled={reprocessing}
+            >
+              {reprocessing ? 'Reprocessing...' : 'Reprocess'}
+            </button>
             <button
               className="px-4 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none"
               onClick={onClose}
@@ -0,0 +1,14 @@
+/**
+ * Runs once when the Next.js server starts (experimental.instrumentationHook)
+ */
+export async function register() {
+  // Background work needs Node APIs; the edge runtime loads this file too
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { WatchRenewalScheduler } = await import('./lib/watch-renewal')
+    WatchRenewalScheduler.getInstance().start()
+
+    // Pick up jobs left from before the restart: queued, waiting to retry or with an expired lease
+    const { JobWorker } = await import('./lib/job-worker')
+    JobWorker.getInstance().start()
+  }
+}
@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Content-addressed storage for original documents. Blobs are keyed by the
+ * SHA-256 of their content, so storing the same file twice is a no-op.
+ */
+export interface BlobStore {
+  /**
+   * Store a blob
+   * @returns Promise<string> - Its SHA-256 hash (hex), the key for get()
+   */
+  put(data: Buffer): Promise<string>;
+
+  /**
+   * Read a blob
+   * @returns Promise<Buffer | null> - The content, or null when no blob has this hash
+   */
+  get(hash: string): Promise<Buffer | null>;
+
+  exists(hash: string): Promise<boolean>;
+}
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * SHA-256 of a buffer as lowercase hex
+ */
+export function hashBlob(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Blob store on the local file system. Blobs live at <root>/ab/cd/<hash>
+ * so no directory grows too large.
+ */
+export class LocalDiskBlobStore implements BlobStore {
+  constructor(private rootDir: string) {}
+
+  async put(data: Buffer): Promise<string> {
+    const hash = hashBlob(data);
+    const blobPath = this.pathFor(hash);
+
+    if (!fs.existsSync(blobPath)) {
+      await fs.promises.mkdir(path.dirname(blobPath), { recursive: true });
+      // Write to a temporary file first so a crash never leaves a partial blob under its hash
+      const tempPath = `${blobPath}.${process.pid}.${Date.now()}.tmp`;
+      await fs.promises.writeFile(tempPath, data);
+      await fs.promises.rename(tempPath, blobPath);
+    }
+
+    return hash;
+  }
+
+  async get(hash: string): Promise<Buffer | null> {
+    if (!HASH_PATTERN.test(hash)) return null;
+
+    try {
+      return await fs.promises.readFile(this.pathFor(hash));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async exists(hash: string): Promise<boolean> {
+    return HASH_PATTERN.test(hash) && fs.existsSync(this.pathFor(hash));
+  }
+
+  private pathFor(hash: string): string {
+    return path.join(this.rootDir, hash.substring(0, 2), hash.substring(2, 4), hash);
+  }
+}
+
+/**
+ * Create the blob store selected by BLOB_STORE_DIR (default: ./blobs)
+ */
+export function createBlobStore(env: NodeJS.ProcessEnv = process.env): BlobStore {
+  return new LocalDiskBlobStore(env.BLOB_STORE_DIR || path.join(process.cwd(), 'blobs'));
+}
@@ -0,0 +1,156 @@
+import { LLMCallOptions, LLMProvider, LLMValidationError, MAX_PROMPT_CHARS } from './llm-provider';
+import { validateExtraction } from './llm-schema';
+import { DocumentChunk, LLMChunkExtractionResult, LLMExtractionResult } from '../types/receipt-types';
+
+export type ExtractionMode = 'single' | 'chunked' | 'auto';
+
+export interface PageChunk extends DocumentChunk {
+  text: string;
+}
+
+/**
+ * Map-reduce extraction for long, multi-page receipts and invoices: pages are
+ * grouped into prompt-sized chunks, each chunk is extracted separately and
+ * the results are merged around the totals on the last page. The merged line
+ * items are reconciled against those totals by the validation stage
+ * (ReceiptValidator).
+ */
+export class ChunkedExtractor {
+  private provider: LLMProvider;
+  private maxChunkChars: number;
+
+  constructor(provider: LLMProvider, maxChunkChars: number = MAX_PROMPT_CHARS) {
+    this.provider = provider;
+    this.maxChunkChars = maxChunkChars;
+  }
+
+  /**
+   * Read the extraction mode from EXTRACTION_MODE (defaults to 'auto')
+   */
+  static getMode(): ExtractionMode {
+    const mode = (process.env.EXTRACTION_MODE || 'auto').toLowerCase();
+    return mode === 'single' || mode === 'chunked' ? mode : 'auto';
+  }
+
+  /**
+   * Decide whether a document should be extracted chunk by chunk.
+   * In 'auto' mode that happens only when the text would not fit in one prompt.
+   */
+  static shouldChunk(text: string, pages: string[], mode: ExtractionMode = ChunkedExtractor.getMode()): boolean {
+    if (mode === 'single' || pages.length === 0) return false;
+    if (mode === 'chunked') return true;
+    return text.length > MAX_PROMPT_CHARS;
+  }
+
+  /**
+   * Group consecutive pages into chunks of at most maxChunkChars characters.
+   * A single page longer than that is split across several chunks.
+   * @param firstPage - Page number of pages[0], for segments of a larger document
+   */
+  chunkPages(pages: string[], firstPage: number = 1): PageChunk[] {
+    const pieces: Array<{ text: string; startPage: number; endPage: number }> = [];
+    let current: { text: string; startPage: number; endPage: number } | null = null;
+
+    pages.forEach((pageText, index) => {
+      const pageNumber = firstPage + index;
+      if (!pageText.trim()) return;
+
+      if (pageText.length > this.maxChunkChars) {
+        if (current) {
+          pieces.push(current);
+          current = null;
+        }
+        for (let offset = 0; offset < pageText.length; offset += this.maxChunkChars) {
+          pieces.push({
+            text: pageText.substring(offset, offset + this.maxChunkChars),
+            startPage: pageNumber,
+            endPage: pageNumber
+          });
+        }
+        return;
+      }
+
+      if (current && current.text.length + pageText.length + 2 <= this.maxChunkChars) {
+        current.text += `\n\n${pageText}`;
+        current.endPage = pageNumber;
+      } else {
+        if (current) pieces.push(current);
+        current = { text: pageText, startPage: pageNumber, endPage: pageNumber };
+      }
+    });
+
+    if (current) pieces.push(current);
+
+    return pieces.map((piece, index) => ({
+      ...piece,
+      index,
+      count: pieces.length
+    }));
+  }
+
+  /**
+   * Extract every chunk and merge the results into one receipt
+   */
+  async extract(pages: string[], options: LLMCallOptions = {}, firstPage: number = 1): Promise<LLMExtractionResult> {
+    const chunks = this.chunkPages(pages, firstPage);
+    if (chunks.length === 0) {
+      throw new Error('Document has no text to extract');
+    }
+
+    const results = await Promise.all(
+      chunks.map(chunk => this.provider.extractReceiptChunk(chunk.text, chunk, options))
+    );
+
+    return this.mergeResults(chunks, results);
+  }
+
+  /**
+   * Reduce chunk results: header fields come from the first chunk that has
+   * them, totals from the last, and line items are concatenated in page order.
+   */
+  mergeResults(chunks: DocumentChunk[], results: LLMChunkExtractionResult[]): LLMExtractionResult {
+    const firstValue = <K extends keyof LLMChunkExtractionResult>(field: K) =>
+      results.find(result => result[field] !== null)?.[field] ?? null;
+    const lastValue = <K extends keyof LLMChunkExtractionResult>(field: K) =>
+      [...results].reverse().find(result => result[field] !== null)?.[field] ?? null;
+
+    // Totals are read from the last chunk that reports a grand total
+    const totalsChunk = [...results].reverse().find(result => result.totalAmount !== null);
+    const totalAmount = totalsChunk?.totalAmount ?? null;
+    const taxAmount = totalsChunk?.taxAmount ?? lastValue('taxAmount');
+    const subtotal = totalsChunk?.subtotal ?? lastValue('subtotal');
+
+    const lineItems = results.reduce<LLMChunkExtractionResult['lineItems']>(
+      (items, result) => items.concat(result.lineItems),
+      []
+    );
+
+    const extractionIssues = results.reduce<string[]>((issues, result, index) => {
+      const chunk = chunks[index];
+      const label = chunk.startPage === chunk.endPage ? `Page ${chunk.startPage}` : `Pages ${chunk.startPage}-${chunk.endPage}`;
+      return issues.concat(result.extractionIssues.map(issue => `${label}: ${issue}`));
+    }, []);
+
+    const confidence = Math.min(...results.map(result => result.confidence));
+
+    const merged = {
+      merchantName: firstValue('merchantName'),
+      transactionDate: firstValue('transactionDate'),
+      totalAmount,
+      taxAmount,
+      subtotal,
+      lineItems,
+      paymentMethod: lastValue('paymentMethod'),
+      confidence,
+      extractionIssues
+    };
+
+    // The merged receipt has to meet the same schema as a single-pass extraction
+    const validation = validateExtraction(merged);
+    if (!validation.valid || !validation.value) {
+      throw new LLMValidationError('extraction', chunks.length, validation.errors);
+    }
+
+    return validation.value;
+  }
+}
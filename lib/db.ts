@@ -57,17 +57,178 @@ export class DatabaseManager {
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         email_id TEXT,
         filename TEXT,
-        processing_stage TEXT, -- 'classification', 'extraction', 'validation'
+        processing_stage TEXT, -- 'classification', 'extraction', 'validation', '<task>_attempt'
         success BOOLEAN,
         error_message TEXT,
         processing_time_ms INTEGER,
         processed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE TABLE IF NOT EXISTS llm_response_cache (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        task TEXT NOT NULL, -- 'classification', 'extraction', 'chunk_extraction'
+        text_hash TEXT NOT NULL, -- SHA-256 of the cleaned document text
+        prompt_version TEXT NOT NULL, -- prompt template id, e.g. 'extraction@v1'
+        model TEXT NOT NULL,
+        provider TEXT,
+        response TEXT NOT NULL, -- validated result as JSON
+        hit_count INTEGER DEFAULT 0,
+        last_hit_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (task, text_hash, prompt_version, model)
+      )`,
+      `CREATE TABLE IF NOT EXISTS llm_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email_id TEXT,
+        filename TEXT,
+        task TEXT NOT NULL, -- 'classification', 'extraction', 'chunk_extraction'
+        provider TEXT,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL,
+        estimated_cost REAL, -- USD; NULL when the model has no price
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE TABLE IF NOT EXISTS pdf_passwords (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sender TEXT NOT NULL UNIQUE, -- lowercased address ('billing@bank.com') or domain ('bank.com')
+        encrypted_password TEXT NOT NULL, -- SecretBox payload, see lib/secret-box.ts
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE TABLE IF NOT EXISTS processing_jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL, -- 'process_document' | 'process_email_body' | 'reprocess_receipt'
+        status TEXT NOT NULL DEFAULT 'queued', -- 'queued' | 'running' | 'succeeded' | 'failed' | 'dead'
+        payload TEXT NOT NULL, -- JSON; documents reference their blob by hash
+        email_id TEXT,
+        filename TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL,
+        lease_owner TEXT, -- worker id holding the job while running
+        lease_expires_at DATETIME,
+        run_after DATETIME DEFAULT CURRENT_TIMESTAMP, -- retry backoff
+        last_error TEXT,
+        result TEXT, -- JSON ProcessingResult of the last attempt
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        started_at DATETIME,
+        finished_at DATETIME
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_processing_jobs_claim ON processing_jobs (status, run_after)`,
+      `CREATE TABLE IF NOT EXISTS ingestions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account TEXT NOT NULL, -- mailbox the message was read from
+        message_id TEXT NOT NULL, -- Gmail message id
+        document_key TEXT NOT NULL, -- 'sha256:<hash>' of the attachment or 'body:<hash>' of the email body
+        filename TEXT,
+        job_id INTEGER, -- latest processing job for the document
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (account, message_id, document_key)
+      )`,
+      `CREATE TABLE IF NOT EXISTS receipt_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        ledger_id INTEGER NOT NULL, -- receipt_ledger.id the revision is an alternative for
+        status TEXT NOT NULL DEFAULT 'pending', -- 'pending' | 'accepted' | 'rejected' | 'superseded'
+        is_receipt BOOLEAN NOT NULL DEFAULT 1,
+        document_type TEXT,
+        merchant_name TEXT,
+        transaction_date DATE,
+        total_amount REAL,
+        tax_amount REAL,
+        subtotal REAL,
+        payment_method TEXT,
+        line_items TEXT, -- JSON array as text
+        llm_confidence INTEGER,
+        llm_extraction_issues TEXT, -- JSON array as text
+        prompt_version TEXT,
+        field_confidence TEXT,
+        model TEXT, -- '<provider>/<model>' of the run
+        raw_text TEXT, -- NULL when the ledger's stored text was reused
+        extraction_method TEXT,
+        ocr_confidence REAL,
+        job_id INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        decided_at DATETIME
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_receipt_revisions_ledger ON receipt_revisions (ledger_id, status)`,
+      `CREATE TABLE IF NOT EXISTS mailbox_credentials (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account TEXT NOT NULL UNIQUE, -- lowercased Gmail address
+        encrypted_access_token TEXT NOT NULL, -- SecretBox payload, see lib/secret-box.ts
+        access_token_expires_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE TABLE IF NOT EXISTS mailbox_sync_state (
+        account TEXT PRIMARY KEY, -- lowercased Gmail address
+        history_id TEXT, -- Gmail history id processed up to
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE TABLE IF NOT EXISTS pubsub_messages (
+        message_id TEXT PRIMARY KEY, -- Pub/Sub messageId of a push delivery
+        subscription TEXT,
+        received_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_pubsub_messages_received ON pubsub_messages (received_at)`,
+      `CREATE TABLE IF NOT EXISTS mailbox_watch_settings (
+        account TEXT PRIMARY KEY, -- lowercased Gmail address
+        scope TEXT NOT NULL DEFAULT 'inbox', -- 'inbox' | 'labels' | 'all'
+        label_ids TEXT, -- JSON array of Gmail label ids, for the 'labels' scope
+        query TEXT, -- optional Gmail search messages must also match
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )`
     ];
 
     tables.forEach(table => {
       this.db.prepare(table).run();
     });
+
+    // Columns added after the original schema; applied to existing databases too
+    const columns: Array<[string, string, string]> = [
+      ['document_analysis', 'processing_status', "TEXT DEFAULT 'completed'"], // 'completed' | 'failed'
+      ['document_analysis', 'error_message', 'TEXT'],
+      ['document_analysis', 'prompt_version', 'TEXT'], // e.g. 'classification@v1'
+      ['receipt_ledger', 'prompt_version', 'TEXT'], // e.g. 'extraction@v2'
+      ['receipt_ledger', 'field_confidence', 'TEXT'], // JSON FieldConfidence from self-consistency voting
+      ['receipt_ledger', 'extraction_method', "TEXT DEFAULT 'text_layer'"], // 'text_layer' | 'ocr'
+      ['receipt_ledger', 'ocr_confidence', 'REAL'],
+      ['receipt_ledger', 'source', "TEXT DEFAULT 'attachment'"], // 'attachment' | 'email_body'
+      ['receipt_ledger', 'page_start', 'INTEGER'], // set when one file holds several receipts
+      ['receipt_ledger', 'page_end', 'INTEGER'],
+      ['receipt_ledger', 'document_hash', 'TEXT'], // SHA-256 of the original file in the blob store
+      ['receipt_ledger', 'document_mime_type', 'TEXT'],
+      ['receipt_ledger', 'ingestion_id', 'INTEGER'], // ingestions.id of the document the row came from
+      ['document_analysis', 'ingestion_id', 'INTEGER'],
+      ['processing_jobs', 'ingestion_id', 'INTEGER'],
+      ['processing_jobs', 'ledger_id', 'INTEGER'], // receipt_ledger.id of a reprocess job
+      ['mailbox_credentials', 'encrypted_refresh_token', 'TEXT'], // SecretBox payload; null until signed in with offline access
+      ['mailbox_sync_state', 'watch_expiration', 'INTEGER'], // epoch ms when the Gmail watch lapses
+      ['mailbox_sync_state', 'last_synced_at', 'DATETIME'], // last successful read of the mailbox
+      ['mailbox_sync_state', 'last_full_sync_at', 'DATETIME'], // last recovery from an expired cursor
+      ['mailbox_sync_state', 'last_error', 'TEXT'], // error of the last failed sync, cleared on success
+      ['mailbox_sync_state', 'last_error_at', 'DATETIME'],
+      ['mailbox_sync_state', 'last_watch_renewal_at', 'DATETIME'], // last attempt to create or renew the watch
+      ['mailbox_sync_state', 'watch_renewal_error', 'TEXT'], // error of that attempt, null when it succeeded
+      ['mailbox_sync_state', 'watch_renewal_failures', 'INTEGER DEFAULT 0'], // consecutive failed renewals
+      ['mailbox_sync_state', 'next_watch_renewal_at', 'INTEGER'] // epoch ms before which a failed renewal is not retried
+    ];
+
+    columns.forEach(([table, column, definition]) => {
+      this.ensureColumn(table, column, definition);
+    });
+  }
+
+  /**
+   * Add a column to an existing table if it is not there yet
+   */
+  private ensureColumn(table: string, column: string, definition: string): void {
+    const existing = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!existing.some(col => col.name === column)) {
+      this.db.prepare(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`).run();
+    }
   }
 
   public close(): void {
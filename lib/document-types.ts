@@ -0,0 +1,46 @@
+/**
+ * Kinds of attachment the receipt pipeline can read
+ */
+export type DocumentKind = 'pdf' | 'image';
+
+interface DocumentType {
+  kind: DocumentKind;
+  extensions: string[];
+}
+
+export const DOCUMENT_TYPES: Record<string, DocumentType> = {
+  'application/pdf': { kind: 'pdf', extensions: ['.pdf'] },
+  'image/jpeg': { kind: 'image', extensions: ['.jpg', '.jpeg'] },
+  'image/png': { kind: 'image', extensions: ['.png'] },
+  'image/heic': { kind: 'image', extensions: ['.heic'] },
+  'image/heif': { kind: 'image', extensions: ['.heif'] }
+};
+
+/**
+ * Resolve the MIME type of an attachment. Mail clients often send photos as
+ * application/octet-stream, so the file extension is used as a fallback.
+ * @returns The supported MIME type, or null when the attachment is not a document we read
+ */
+export function resolveDocumentMimeType(mimeType: string | undefined, filename: string = ''): string | null {
+  const normalized = (mimeType || '').toLowerCase().split(';')[0].trim();
+  if (normalized === 'image/jpg') return 'image/jpeg';
+  if (DOCUMENT_TYPES[normalized]) return normalized;
+
+  const lowerName = filename.toLowerCase();
+  const match = Object.keys(DOCUMENT_TYPES).find(type =>
+    DOCUMENT_TYPES[type].extensions.some(extension => lowerName.endsWith(extension))
+  );
+  return match || null;
+}
+
+/**
+ * The pipeline a document goes through, or null when it is not supported
+ */
+export function getDocumentKind(mimeType: string | undefined, filename: string = ''): DocumentKind | null {
+  const resolved = resolveDocumentMimeType(mimeType, filename);
+  return resolved ? DOCUMENT_TYPES[resolved].kind : null;
+}
+
+export function isSupportedDocument(mimeType: string | undefined, filename: string = ''): boolean {
+  return resolveDocumentMimeType(mimeType, filename) !== null;
+}
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { BaseLLMProcessor, LLMCompletion, LLMCompletionRequest } from './llm-provider';
+
+/**
+ * A canned LLM response. A fixture is selected for a document when its
+ * `textHash` equals the SHA-256 of the document text, or failing that when
+ * the text contains `match`. A file named `default.json` is used as the
+ * fallback when nothing else matches.
+ */
+export interface LLMFixture {
+  name: string;
+  textHash?: string;
+  match?: string;
+  classification?: any;
+  extraction?: any;
+  chunk_extraction?: any;
+}
+
+/**
+ * Deterministic, network-free LLM provider backed by JSON fixture files.
+ * Intended for running the full pipeline in tests and local development.
+ */
+export class FixtureLLMProcessor extends BaseLLMProcessor {
+  readonly name: string = 'fixture';
+  private fixtures: LLMFixture[];
+  private defaultFixture?: LLMFixture;
+
+  constructor(fixtures: LLMFixture[], defaultFixture?: LLMFixture) {
+    super('fixture');
+    this.fixtures = fixtures;
+    this.defaultFixture = defaultFixture;
+    // Fixture responses are free and must always reflect the current files
+    this.useCache = false;
+  }
+
+  /**
+   * Load every *.json fixture in a directory
+   */
+  static fromDirectory(fixtureDir: string): FixtureLLMProcessor {
+    const fixtures: LLMFixture[] = [];
+    let defaultFixture: LLMFixture | undefined;
+
+    const files = fs.readdirSync(fixtureDir)
+      .filter(file => file.endsWith('.json'))
+      .sort();
+
+    for (const file of files) {
+      const contents = JSON.parse(fs.readFileSync(path.join(fixtureDir, file), 'utf-8'));
+      const fixture: LLMFixture = { name: path.basename(file, '.json'), ...contents };
+
+      if (fixture.name === 'default') {
+        defaultFixture = fixture;
+      } else {
+        fixtures.push(fixture);
+      }
+    }
+
+    return new FixtureLLMProcessor(fixtures, defaultFixture);
+  }
+
+  static hashText(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+  }
+
+  protected async complete({ task, documentText }: LLMCompletionRequest): Promise<LLMCompletion> {
+    const fixture = this.findFixture(documentText);
+
+    if (!fixture) {
+      throw new Error('No LLM fixture matches this document');
+    }
+
+    // Chunk requests fall back to the whole-document extraction response
+    const response = fixture[task] ?? (task === 'chunk_extraction' ? fixture.extraction : undefined);
+    if (response === undefined) {
+      throw new Error(`LLM fixture "${fixture.name}" has no ${task} response`);
+    }
+
+    return { content: typeof response === 'string' ? response : JSON.stringify(response) };
+  }
+
+  private findFixture(text: string): LLMFixture | undefined {
+    const textHash = FixtureLLMProcessor.hashText(text);
+
+    return this.fixtures.find(fixture => fixture.textHash === textHash)
+      || this.fixtures.find(fixture => fixture.match && text.includes(fixture.match))
+      || this.defaultFixture;
+  }
+}
@@ -0,0 +1,42 @@
+import { GmailService } from './gmail-service';
+import { JobQueue } from './job-queue';
+import { createGmailClient, MailboxCredentials, MailboxCredentialStore } from './mailbox-credentials';
+import { MailboxSync, MailboxSyncResult } from './mailbox-sync';
+
+/**
+ * Creates the Gmail client of an account; replaced in tests to talk to a fake
+ */
+export type GmailClientFactory = (credentials: MailboxCredentials) => GmailService;
+
+export interface NotificationResult extends Omit<MailboxSyncResult, 'status'> {
+  // 'no_credentials': the account has not signed in since credentials were stored;
+  // otherwise the outcome of the mailbox sync
+  status: MailboxSyncResult['status'] | 'no_credentials';
+}
+
+/**
+ * Turns a Gmail push notification into receipt processing jobs, by syncing
+ * the notified account's mailbox from its stored cursor with the account's
+ * stored credentials.
+ */
+export class GmailNotificationProcessor {
+  private createClient: GmailClientFactory;
+  private mailboxSync: MailboxSync;
+
+  constructor(createClient?: GmailClientFactory, queue?: JobQueue) {
+    this.createClient = createClient || createGmailClient;
+    this.mailboxSync = new MailboxSync(queue);
+  }
+
+  async process(emailAddress: string, notifiedHistoryId: string): Promise<NotificationResult> {
+    const account = MailboxCredentialStore.normalizeAccount(emailAddress);
+
+    const credentials = MailboxCredentialStore.getInstance().get(account);
+    if (!credentials) {
+      console.warn(`Gmail notification for ${account} ignored: no stored credentials`);
+      return { account, status: 'no_credentials', historyId: notifiedHistoryId, messages: 0, jobs: [] };
+    }
+
+    return this.mailboxSync.sync(account, this.createClient(credentials), notifiedHistoryId);
+  }
+}
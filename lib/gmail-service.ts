@@ -1,10 +1,29 @@
 import { google } from 'googleapis'
+import { isSupportedDocument } from './document-types'
+import { DocumentAttachment, EmailBody, EmailData } from '../types/receipt-types'
+
+export interface HistoryOptions {
+  // e.g. ['messageAdded']; all change types when not set
+  historyTypes?: string[]
+  labelId?: string
+}
+
+export interface GmailServiceOptions {
+  // Epoch milliseconds; lets the client refresh the access token before it expires
+  accessTokenExpiresAt?: number | null
+  // Called when the client refreshed its access token
+  onTokens?: (accessToken: string, expiresAt: number | null, refreshToken?: string) => void
+}
 
 export class GmailService {
   private oauth2Client: any
   private gmail: any
 
-  constructor(accessToken: string, refreshToken?: string) {
+  /**
+   * With a refresh token, the client gets a new access token whenever the
+   * current one expires or is rejected
+   */
+  constructor(accessToken: string, refreshToken?: string, options: GmailServiceOptions = {}) {
     this.oauth2Client = new google.auth.OAuth2(
       process.env.GOOGLE_CLIENT_ID,
       process.env.GOOGLE_CLIENT_SECRET
@@ -12,10 +31,43 @@ export class GmailService {
     
     this.oauth2Client.setCredentials({
       access_token: accessToken,
-      refresh_token: refreshToken
+      refresh_token: refreshToken,
+      expiry_date: options.accessTokenExpiresAt ?? undefined
     })
     
-    this.gmail = google.gmail({ version: 'v1', auth: this.oauth2Client })
+    const onTokens = options.onTokens
+    if (onTokens) {
+      this.oauth2Client.on('tokens', (tokens: any) => {
+        if (tokens.access_token) {
+          onTokens(tokens.access_token, tokens.expiry_date ?? null, tokens.refresh_token ?? undefined)
+        }
+      })
+    }
+    
+    // GMAIL_API_ROOT_URL points the client at a local fake Gmail API (scripts/fake-gmail-api.ts)
+    const rootUrl = process.env.GMAIL_API_ROOT_URL
+    this.gmail = google.gmail({ version: 'v1', auth: this.oauth2Client, ...(rootUrl ? { rootUrl } : {}) })
+  }
+
+  /**
+   * A valid access token, refreshed first when the current one has expired
+   * @throws Error when it has expired and cannot be refreshed
+   */
+  async getAccessToken(): Promise<{ accessToken: string, expiresAt: number | null }> {
+    const { token } = await this.oauth2Client.getAccessToken()
+    if (!token) {
+      throw new Error('No access token available')
+    }
+    return { accessToken: token, expiresAt: this.oauth2Client.credentials.expiry_date ?? null }
+  }
+
+  /**
+   * Revoke the client's grant at Google. Revoking the refresh token also
+   * invalidates the access tokens issued from it.
+   */
+  async revokeCredentials() {
+    const { refresh_token: refreshToken, access_token: accessToken } = this.oauth2Client.credentials
+    await this.oauth2Client.revokeToken(refreshToken || accessToken)
   }
   
   /**
@@ -40,25 +92,46 @@ export class GmailService {
     }
   }
 
+  /**
+   * Pub/Sub topic Gmail publishes notifications to: PUBSUB_TOPIC_NAME, either
+   * a full "projects/<project>/topics/<topic>" name or a topic name in
+   * GOOGLE_CLOUD_PROJECT_ID
+   * @throws Error when the topic is not configured
+   */
+  static getPubSubTopic(): string {
+    const topic = process.env.PUBSUB_TOPIC_NAME
+    if (!topic) {
+      throw new Error('PUBSUB_TOPIC_NAME is not set')
+    }
+    if (topic.startsWith('projects/')) {
+      return topic
+    }
+    
+    const projectId = process.env.GOOGLE_CLOUD_PROJECT_ID
+    if (!projectId) {
+      throw new Error('GOOGLE_CLOUD_PROJECT_ID is not set')
+    }
+    return `projects/${projectId}/topics/${topic}`
+  }
+
   /**
    * Set up a watch on the Gmail account to get notifications about changes
+   * @param labelIds - Labels whose changes are notified; every change when empty
    */
-  async setupWatch(userId = 'me') {
+  async setupWatch(labelIds: string[] = ['INBOX'], userId = 'me') {
     try {
       // First, stop any existing watch
       await this.stopWatch(userId);
       
       // Then set up a new watch
-      const topicName = `projects/aerial-velocity-340305/topics/gmail-notifications`;
+      const topicName = GmailService.getPubSubTopic();
       console.log('Using topic name:', topicName);
       
       const watchRequest = {
         userId,
         requestBody: {
-          // Hard-code the project ID and topic name for now
           topicName: topicName,
-          labelIds: ['INBOX'],
-          labelFilterAction: 'include'
+          ...(labelIds.length > 0 ? { labelIds, labelFilterAction: 'include' } : {})
         }
       }
       
@@ -73,24 +146,77 @@ export class GmailService {
   }
   
   /**
-   * Get history changes since the specified historyId
+   * Get every history record since the specified historyId, following
+   * pagination. Errors are thrown: a 404 means the historyId is too old for
+   * Gmail to list changes from.
+   * @returns The history records and the mailbox's current historyId
    */
-  async getHistory(startHistoryId: string, userId = 'me') {
-    try {
+  async listHistory(startHistoryId: string, options: HistoryOptions = {}, userId = 'me'): Promise<{ history: any[], historyId: string }> {
+    const history: any[] = []
+    let historyId = startHistoryId
+    let pageToken: string | undefined
+    
+    do {
       const response = await this.gmail.users.history.list({
         userId,
-        startHistoryId
+        startHistoryId,
+        historyTypes: options.historyTypes,
+        labelId: options.labelId,
+        pageToken
       })
       
-      return response.data.history || []
-    } catch (error) {
-      console.error('Error fetching history:', error)
-      return []
-    }
+      history.push(...(response.data.history || []))
+      historyId = response.data.historyId || historyId
+      pageToken = response.data.nextPageToken || undefined
+    } while (pageToken)
+    
+    return { history, historyId }
   }
-  
+
+  /**
+   * Get the mailbox's labels, system and user created
+   */
+  async listLabels(userId = 'me'): Promise<Array<{ id: string, name: string, type: string }>> {
+    const response = await this.gmail.users.labels.list({ userId })
+    return (response.data.labels || []).map((label: any) => ({ id: label.id, name: label.name, type: label.type }))
+  }
+
+  /**
+   * Get the mailbox's address and current historyId
+   */
+  async getProfile(userId = 'me'): Promise<{ emailAddress: string, historyId: string }> {
+    const response = await this.gmail.users.getProfile({ userId })
+    return { emailAddress: response.data.emailAddress, historyId: String(response.data.historyId) }
+  }
+
+  /**
+   * List the ids of messages matching a search, newest first, following
+   * pagination up to maxResults. Errors are thrown.
+   */
+  async listMessageIds(options: { query?: string, labelIds?: string[], maxResults: number }, userId = 'me'): Promise<string[]> {
+    const ids: string[] = []
+    let pageToken: string | undefined
+
+    do {
+      const response = await this.gmail.users.messages.list({
+        userId,
+        q: options.query,
+        labelIds: options.labelIds,
+        maxResults: Math.min(options.maxResults - ids.length, 500),
+        pageToken
+      })
+
+      ids.push(...(response.data.messages || []).map((message: any) => message.id))
+      pageToken = response.data.nextPageToken || undefined
+    } while (pageToken && ids.length < options.maxResults)
+
+    return ids
+  }
+
   /**
    * Get a specific message by ID
+   * @returns null when the message does not exist (e.g. it was deleted)
+   * @throws Error for any other failure, so callers do not mistake an outage for a deleted message
    */
   async getMessage(messageId: string, userId = 'me') {
     try {
@@ -101,9 +227,12 @@ export class GmailService {
       })
       
       return response.data
-    } catch (error) {
-      console.error('Error fetching message:', error)
-      return null
+    } catch (error: any) {
+      if (error.code === 404 || (error.response && error.response.status === 404)) {
+        return null
+      }
+      console.error('Error fetching message:', error.response?.data || error.message)
+      throw error
     }
   }
   
@@ -126,43 +255,78 @@ export class GmailService {
   }
   
   /**
-   * Check if an email has PDF attachments
+   * Build the receipt pipeline's input from a full message, downloading its
+   * document attachments
+   * @throws Error when an attachment cannot be downloaded, so the message is not
+   *         processed without it
+   */
+  async getEmailData(message: any, userId = 'me'): Promise<EmailData> {
+    const headers: Array<{name: string, value: string}> = message.payload?.headers || []
+    const header = (name: string) => headers.find(h => h.name.toLowerCase() === name.toLowerCase())?.value
+    
+    const attachments: DocumentAttachment[] = []
+    for (const attachment of GmailService.getDocumentAttachments(message)) {
+      const data = await this.getAttachment(message.id, attachment.attachmentId, userId)
+      if (!data || !data.data) {
+        throw new Error(`Attachment ${attachment.filename} of message ${message.id} could not be downloaded`)
+      }
+      
+      attachments.push({
+        filename: attachment.filename,
+        contentType: attachment.mimeType,
+        data: Buffer.from(data.data, 'base64')
+      })
+    }
+    
+    const date = header('Date')
+    return {
+      id: message.id,
+      sender: header('From') || 'Unknown',
+      subject: header('Subject') || 'No Subject',
+      date: date ? new Date(date) : new Date(Number(message.internalDate) || Date.now()),
+      attachments,
+      body: GmailService.getReceiptBody(message) || undefined
+    }
+  }
+  
+  /**
+   * Check if an email has document attachments (PDFs or receipt photos)
    */
-  static hasPdfAttachment(message: any): boolean {
+  static hasDocumentAttachment(message: any): boolean {
     try {
       // Check if the message has a payload
       if (!message || !message.payload) {
         return false;
       }
       
-      // Function to recursively check parts for PDF attachments
-      const checkPartsForPdf = (part: any): boolean => {
-        // Check current part
-        if (part.mimeType === 'application/pdf') {
+      // Function to recursively check parts for document attachments
+      const checkPartsForDocument = (part: any): boolean => {
+        // Check the MIME type, falling back to the file extension
+        if (part.filename && isSupportedDocument(part.mimeType, part.filename) && !GmailService.isEmbeddedImage(part)) {
           return true;
         }
         
-        // Check filename for .pdf extension
-        if (part.filename && part.filename.toLowerCase().endsWith('.pdf')) {
+        // A PDF may be attached without a filename
+        if (part.mimeType === 'application/pdf') {
           return true;
         }
         
         // Check if this part has nested parts
         if (part.parts && part.parts.length > 0) {
-          return part.parts.some((subPart: any) => checkPartsForPdf(subPart));
+          return part.parts.some((subPart: any) => checkPartsForDocument(subPart));
         }
         
         return false;
       };
       
       // Start checking from the message payload
-      if (checkPartsForPdf(message.payload)) {
+      if (checkPartsForDocument(message.payload)) {
         return true;
       }
       
       return false;
     } catch (error) {
-      console.error('Error checking for PDF attachments:', error);
+      console.error('Error checking for document attachments:', error);
       return false;
     }
   }
@@ -170,8 +334,8 @@ export class GmailService {
   /**
    * Get attachment details from a message
    */
-  static getAttachments(message: any): Array<{filename: string, mimeType: string, attachmentId: string, size: number}> {
-    const attachments: Array<{filename: string, mimeType: string, attachmentId: string, size: number}> = [];
+  static getAttachments(message: any): Array<{filename: string, mimeType: string, attachmentId: string, size: number, embedded: boolean}> {
+    const attachments: Array<{filename: string, mimeType: string, attachmentId: string, size: number, embedded: boolean}> = [];
     
     // Function to recursively find attachments
     const findAttachments = (part: any) => {
@@ -181,7 +345,8 @@ export class GmailService {
           filename: part.filename,
           mimeType: part.mimeType,
           attachmentId: part.body.attachmentId,
-          size: part.body.size || 0
+          size: part.body.size || 0,
+          embedded: GmailService.isEmbeddedImage(part)
         });
       }
       
@@ -199,28 +364,55 @@ export class GmailService {
     return attachments;
   }
   
+  /**
+   * Get the attachments of a message that the receipt pipeline can read
+   */
+  static getDocumentAttachments(message: any): Array<{filename: string, mimeType: string, attachmentId: string, size: number, embedded: boolean}> {
+    return GmailService.getAttachments(message).filter(
+      attachment => !attachment.embedded && isSupportedDocument(attachment.mimeType, attachment.filename)
+    );
+  }
+  
+  /**
+   * Images referenced from the HTML body by Content-ID (logos, signatures)
+   * are part of the message layout, not attached receipt photos
+   */
+  private static isEmbeddedImage(part: any): boolean {
+    if (!part.mimeType || !part.mimeType.startsWith('image/')) {
+      return false;
+    }
+    
+    const headers: Array<{name: string, value: string}> = part.headers || [];
+    const disposition = headers.find(h => h.name.toLowerCase() === 'content-disposition')?.value || '';
+    const hasContentId = headers.some(h => h.name.toLowerCase() === 'content-id');
+    
+    return hasContentId && !disposition.toLowerCase().startsWith('attachment');
+  }
+  
   /**
    * Extract the body content from an email message
+   * @param payload - The message payload
+   * @param mimeType - Only return a part of this type ('text/plain' or 'text/html')
    */
-  static extractEmailBody(payload: any): string | null {
+  static extractEmailBody(payload: any, mimeType?: string): string | null {
     try {
+      const matchesType = (part: any) =>
+        mimeType ? part.mimeType === mimeType : part.mimeType === 'text/plain' || part.mimeType === 'text/html'
+      
       // Handle different email structures
       if (payload.parts) {
         // Multipart email
         for (const part of payload.parts) {
-          if (part.mimeType === 'text/plain' && part.body.data) {
-            return Buffer.from(part.body.data, 'base64').toString('utf-8')
-          }
-          if (part.mimeType === 'text/html' && part.body.data) {
+          if (matchesType(part) && part.body.data) {
             return Buffer.from(part.body.data, 'base64').toString('utf-8')
           }
           // Handle nested parts
           if (part.parts) {
-            const nestedBody = GmailService.extractEmailBody(part)
+            const nestedBody = GmailService.extractEmailBody(part, mimeType)
             if (nestedBody) return nestedBody
           }
         }
-      } else if (payload.body && payload.body.data) {
+      } else if (payload.body && payload.body.data && (!mimeType || payload.mimeType === mimeType)) {
         // Single part email
         return Buffer.from(payload.body.data, 'base64').toString('utf-8')
       }
@@ -231,4 +423,22 @@ export class GmailService {
       return null
     }
   }
+  
+  /**
+   * Get the body of a message for receipt extraction, preferring the HTML
+   * part because receipts lay out their line items in tables
+   */
+  static getReceiptBody(message: any): EmailBody | null {
+    if (!message || !message.payload) {
+      return null
+    }
+    
+    const html = GmailService.extractEmailBody(message.payload, 'text/html')
+    if (html) {
+      return { content: html, mimeType: 'text/html' }
+    }
+    
+    const text = GmailService.extractEmailBody(message.payload, 'text/plain')
+    return text ? { content: text, mimeType: 'text/plain' } : null
+  }
 }
@@ -0,0 +1,108 @@
+// Elements whose content is never visible text
+const HIDDEN_ELEMENTS = ['head', 'style', 'script', 'title', 'noscript', 'template'];
+
+// Elements that start a new line of text
+const BLOCK_ELEMENTS = [
+  'address', 'article', 'aside', 'blockquote', 'caption', 'center', 'dd', 'div', 'dl', 'dt',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav',
+  'ol', 'p', 'pre', 'section', 'table', 'tbody', 'tfoot', 'thead', 'ul'
+];
+
+// Separator between table cells on the same row
+const CELL_SEPARATOR = ' | ';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '-',
+  mdash: '-',
+  hellip: '...',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  cent: '¢',
+  times: '×',
+  zwnj: '',
+  zwj: ''
+};
+
+export class HtmlConverter {
+  /**
+   * Convert an HTML email body to plain text. Each table row becomes one
+   * line with its cells separated by " | ", so item/quantity/price columns
+   * stay together the way they appear in the email.
+   * @param html - The HTML body
+   * @returns string - Text with one line per block or table row
+   */
+  static toText(html: string): string {
+    if (!html) return '';
+
+    let text = html
+      // Comments and conditional comments
+      .replace(/<!--[\s\S]*?-->/g, '');
+
+    HIDDEN_ELEMENTS.forEach(tag => {
+      text = text.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}\\s*>`, 'gi'), '');
+    });
+
+    text = text
+      // Hidden preheader text, when the element has no nested element of the same kind
+      .replace(/<(span|div)\b[^>]*display\s*:\s*none[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      // Table rows become lines, cells are separated on the same line
+      .replace(/<\/?tr\b[^>]*>/gi, '\n')
+      .replace(/<\/t[dh]\s*>/gi, CELL_SEPARATOR)
+      .replace(new RegExp(`<\\/?(?:${BLOCK_ELEMENTS.join('|')})\\b[^>]*>`, 'gi'), '\n')
+      // Drop every remaining tag
+      .replace(/<[^>]+>/g, '');
+
+    return HtmlConverter.normalizeText(HtmlConverter.decodeEntities(text));
+  }
+
+  /**
+   * Decode named and numeric HTML character references
+   */
+  static decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const codePoint = code[1].toLowerCase() === 'x'
+          ? parseInt(code.substring(2), 16)
+          : parseInt(code.substring(1), 10);
+        return isNaN(codePoint) || codePoint > 0x10ffff ? entity : String.fromCodePoint(codePoint);
+      }
+      const decoded = NAMED_ENTITIES[code.toLowerCase()];
+      return decoded !== undefined ? decoded : entity;
+    });
+  }
+
+  /**
+   * Tidy text line by line: collapse spaces, drop empty cells and blank
+   * lines, and keep the line breaks that carry the table structure
+   */
+  static normalizeText(text: string): string {
+    if (!text) return '';
+
+    const separator = CELL_SEPARATOR.trim();
+
+    return text
+      .replace(/\r\n?/g, '\n')
+      .split('\n')
+      .map(line => line
+        // Non-breaking, zero-width and other unusual spaces
+        .replace(/[\u00a0\u1680\u2000-\u200b\u202f\u205f\u3000\ufeff]/g, ' ')
+        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
+        .split(separator)
+        .map(cell => cell.replace(/[ \t]+/g, ' ').trim())
+        .filter(cell => cell.length > 0)
+        .join(CELL_SEPARATOR))
+      .filter(line => line.length > 0)
+      .join('\n');
+  }
+}
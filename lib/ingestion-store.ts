@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import { DatabaseManager } from './db';
+
+export interface Ingestion {
+  id: number;
+  account: string;
+  messageId: string;
+  documentKey: string;
+  filename: string | null;
+  jobId: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * One row per document ever submitted for processing, unique on
+ * (account, message id, document key), so the same attachment of the same
+ * message is only ingested once. Ledger and analysis rows point back to
+ * their ingestion through ingestion_id.
+ */
+export class IngestionStore {
+  private static instance: IngestionStore;
+  private db: DatabaseManager;
+
+  private constructor() {
+    this.db = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): IngestionStore {
+    if (!IngestionStore.instance) {
+      IngestionStore.instance = new IngestionStore();
+    }
+    return IngestionStore.instance;
+  }
+
+  /**
+   * Key of an attachment: its content hash. Gmail attachment ids change
+   * every time a message is fetched, so they cannot identify a document.
+   */
+  static attachmentKey(blobHash: string): string {
+    return `sha256:${blobHash}`;
+  }
+
+  /**
+   * Key of a receipt read from the email body
+   */
+  static bodyKey(content: string): string {
+    return `body:${crypto.createHash('sha256').update(content).digest('hex')}`;
+  }
+
+  /**
+   * Find or create the ingestion of a document
+   * @returns The ingestion, and whether this call created it
+   */
+  register(
+    account: string,
+    messageId: string,
+    documentKey: string,
+    filename: string
+  ): { ingestion: Ingestion; created: boolean } {
+    const result = this.db.getDb().prepare(`
+      INSERT INTO ingestions (account, message_id, document_key, filename, created_at, updated_at)
+      VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+      ON CONFLICT (account, message_id, document_key) DO NOTHING
+    `).run(account, messageId, documentKey, filename);
+
+    const row = this.db.getDb().prepare(`
+      SELECT * FROM ingestions WHERE account = ? AND message_id = ? AND document_key = ?
+    `).get(account, messageId, documentKey);
+
+    return { ingestion: this.mapRow(row), created: result.changes > 0 };
+  }
+
+  /**
+   * Point an ingestion at the job processing it
+   */
+  setJob(id: number, jobId: number): void {
+    this.db.getDb().prepare(`
+      UPDATE ingestions SET job_id = ?, updated_at = datetime('now') WHERE id = ?
+    `).run(jobId, id);
+  }
+
+  get(id: number): Ingestion | null {
+    const row = this.db.getDb().prepare('SELECT * FROM ingestions WHERE id = ?').get(id);
+    return row ? this.mapRow(row) : null;
+  }
+
+  private mapRow(row: any): Ingestion {
+    return {
+      id: row.id,
+      account: row.account,
+      messageId: row.message_id,
+      documentKey: row.document_key,
+      filename: row.filename,
+      jobId: row.job_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
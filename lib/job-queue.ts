@@ -0,0 +1,475 @@
+import { DatabaseManager } from './db';
+import { BlobStore, createBlobStore } from './blob-store';
+import { IngestionStore } from './ingestion-store';
+import { EmailBody, EmailData, ProcessingOptions, ProcessingResult, ReprocessOptions } from '../types/receipt-types';
+
+// Filename recorded for receipts read from the email body
+export const EMAIL_BODY_FILENAME = 'email-body';
+
+/**
+ * queued → running → succeeded | failed | dead. Retryable failures go back
+ * to queued with a backoff; 'failed' is a permanent failure and 'dead' a job
+ * that ran out of attempts.
+ */
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'dead';
+
+export type JobType = 'process_document' | 'process_email_body' | 'reprocess_receipt';
+
+export interface DocumentJobPayload {
+  emailId: string;
+  sender?: string;
+  filename: string;
+  contentType: string;
+  // The attachment in the blob store
+  blobHash: string;
+  options?: ProcessingOptions;
+  ingestionId?: number;
+  // Forced reprocess: replace the ledger rows of the earlier run
+  replaceExisting?: boolean;
+}
+
+export interface EmailBodyJobPayload {
+  emailId: string;
+  body: EmailBody;
+  options?: ProcessingOptions;
+  ingestionId?: number;
+  replaceExisting?: boolean;
+}
+
+export interface ReprocessJobPayload {
+  emailId: string;
+  // The receipt_ledger row to classify and extract again
+  ledgerId: number;
+  options?: ReprocessOptions;
+}
+
+export type JobPayload = DocumentJobPayload | EmailBodyJobPayload | ReprocessJobPayload;
+
+export interface EnqueueOptions {
+  // Mailbox the emails were read from, part of the ingestion key
+  account: string;
+  // Process documents again even when they were ingested before
+  force?: boolean;
+  options?: ProcessingOptions;
+}
+
+export interface EnqueuedJob {
+  id: number;
+  emailId: string;
+  filename: string;
+  status: JobStatus;
+  // True when the document was already ingested and its existing job is returned
+  duplicate: boolean;
+  result?: ProcessingResult | null;
+}
+
+export interface ProcessingJob {
+  id: number;
+  type: JobType;
+  status: JobStatus;
+  payload: JobPayload;
+  emailId: string | null;
+  filename: string | null;
+  attempts: number;
+  maxAttempts: number;
+  leaseOwner: string | null;
+  leaseExpiresAt: string | null;
+  runAfter: string | null;
+  lastError: string | null;
+  result: ProcessingResult | null;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface JobProgress extends ProcessingJob {
+  // Pipeline steps logged for the job's document since it was enqueued
+  steps: Array<{
+    stage: string;
+    success: boolean;
+    errorMessage: string | null;
+    processingTime: number;
+    processedAt: string;
+  }>;
+}
+
+/**
+ * Durable queue of document processing jobs in the processing_jobs table.
+ * Workers claim a job by taking a lease on it; a job whose lease runs out
+ * (the worker crashed or hung) can be claimed again by another worker.
+ */
+export class JobQueue {
+  private static instance: JobQueue;
+  private db: DatabaseManager;
+
+  private constructor() {
+    this.db = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): JobQueue {
+    if (!JobQueue.instance) {
+      JobQueue.instance = new JobQueue();
+    }
+    return JobQueue.instance;
+  }
+
+  /**
+   * Attempts before a failing job is dead (JOB_MAX_ATTEMPTS, default 3)
+   */
+  static getMaxAttempts(): number {
+    return Math.max(1, parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10) || 3);
+  }
+
+  /**
+   * How long a claimed job stays leased without a renewal (JOB_LEASE_SECONDS, default 300)
+   */
+  static getLeaseSeconds(): number {
+    return Math.max(10, parseInt(process.env.JOB_LEASE_SECONDS || '300', 10) || 300);
+  }
+
+  /**
+   * Delay before retry n (1-based): JOB_RETRY_BASE_SECONDS (default 30), doubled per attempt
+   */
+  static getRetryDelaySeconds(attempt: number): number {
+    const base = parseInt(process.env.JOB_RETRY_BASE_SECONDS || '30', 10) || 30;
+    return base * Math.pow(2, Math.max(0, attempt - 1));
+  }
+
+  /**
+   * Add a job to the queue
+   * @returns number - The job id
+   */
+  enqueue(type: JobType, payload: JobPayload, filename: string | null): number {
+    const result = this.db.getDb().prepare(`
+      INSERT INTO processing_jobs (
+        type, status, payload, email_id, filename, ingestion_id, ledger_id, max_attempts,
+        run_after, created_at, updated_at
+      ) VALUES (?, 'queued', ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'), datetime('now'))
+    `).run(
+      type,
+      JSON.stringify(payload),
+      payload.emailId,
+      filename,
+      'ingestionId' in payload ? payload.ingestionId ?? null : null,
+      'ledgerId' in payload ? payload.ledgerId : null,
+      JobQueue.getMaxAttempts()
+    );
+
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Enqueue one job per document attachment, or one for the body of an
+   * email without attachments. Attachments are put in the blob store so the
+   * job itself only carries their hash. A document that was ingested before
+   * returns its existing job instead, unless force is set; a forced
+   * reprocess replaces the earlier run's ledger rows.
+   */
+  async enqueueEmailBatch(
+    emails: EmailData[],
+    { account, force = false, options = {} }: EnqueueOptions,
+    blobStore: BlobStore = createBlobStore()
+  ): Promise<EnqueuedJob[]> {
+    const jobs: EnqueuedJob[] = [];
+
+    for (const email of emails) {
+      const attachments = email.attachments || [];
+      for (const attachment of attachments) {
+        const blobHash = await blobStore.put(attachment.data);
+        jobs.push(this.enqueueIngestion(
+          account,
+          email.id,
+          IngestionStore.attachmentKey(blobHash),
+          attachment.filename,
+          force,
+          ingestion => this.enqueue('process_document', {
+            emailId: email.id,
+            sender: email.sender,
+            filename: attachment.filename,
+            contentType: attachment.contentType,
+            blobHash,
+            options,
+            ...ingestion
+          }, attachment.filename)
+        ));
+      }
+
+      // Emails without a receipt attachment may carry the receipt in the body
+      const body = email.body;
+      if (attachments.length === 0 && body) {
+        jobs.push(this.enqueueIngestion(
+          account,
+          email.id,
+          IngestionStore.bodyKey(body.content),
+          EMAIL_BODY_FILENAME,
+          force,
+          ingestion => this.enqueue('process_email_body', {
+            emailId: email.id,
+            body,
+            options,
+            ...ingestion
+          }, EMAIL_BODY_FILENAME)
+        ));
+      }
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Register a document's ingestion and enqueue its job, or return the
+   * existing job for a document that was ingested before. A job that is
+   * still queued or running is never duplicated, even when forced.
+   */
+  private enqueueIngestion(
+    account: string,
+    emailId: string,
+    documentKey: string,
+    filename: string,
+    force: boolean,
+    enqueueJob: (ingestion: { ingestionId: number; replaceExisting: boolean }) => number
+  ): EnqueuedJob {
+    const ingestions = IngestionStore.getInstance();
+
+    return this.db.getDb().transaction(() => {
+      const { ingestion, created } = ingestions.register(account, emailId, documentKey, filename);
+      const existing = !created && ingestion.jobId !== null ? this.get(ingestion.jobId) : null;
+
+      if (existing && (!force || existing.status === 'queued' || existing.status === 'running')) {
+        return {
+          id: existing.id,
+          emailId,
+          filename,
+          status: existing.status,
+          duplicate: true,
+          result: existing.result
+        };
+      }
+
+      const id = enqueueJob({ ingestionId: ingestion.id, replaceExisting: !!existing });
+      ingestions.setJob(ingestion.id, id);
+
+      return { id, emailId, filename, status: 'queued' as JobStatus, duplicate: false };
+    })();
+  }
+
+  /**
+   * Enqueue a reprocess job per ledger receipt. A receipt that already has a
+   * reprocess job queued or running returns that job instead.
+   */
+  enqueueReprocess(ledgerIds: number[], options: ReprocessOptions = {}): EnqueuedJob[] {
+    const db = this.db.getDb();
+
+    return db.transaction(() => ledgerIds.flatMap(ledgerId => {
+      const receipt = db.prepare('SELECT email_id, filename FROM receipt_ledger WHERE id = ?').get(ledgerId) as
+        { email_id: string; filename: string } | undefined;
+      if (!receipt) return [];
+
+      const existing = db.prepare(`
+        SELECT * FROM processing_jobs
+        WHERE type = 'reprocess_receipt' AND ledger_id = ? AND status IN ('queued', 'running')
+        ORDER BY id DESC LIMIT 1
+      `).get(ledgerId);
+
+      if (existing) {
+        const job = this.mapRow(existing);
+        return [{ id: job.id, emailId: receipt.email_id, filename: receipt.filename, status: job.status, duplicate: true }];
+      }
+
+      const id = this.enqueue('reprocess_receipt', { emailId: receipt.email_id, ledgerId, options }, receipt.filename);
+      return [{ id, emailId: receipt.email_id, filename: receipt.filename, status: 'queued' as JobStatus, duplicate: false }];
+    }))();
+  }
+
+  /**
+   * Lease the next runnable job: a queued job whose backoff has passed, or a
+   * running job whose lease expired
+   * @returns ProcessingJob | null - The claimed job, now running, or null when none is runnable
+   */
+  claim(workerId: string): ProcessingJob | null {
+    const db = this.db.getDb();
+
+    const claimJob = db.transaction(() => {
+      // Jobs that were abandoned mid-run on their last attempt are dead
+      db.prepare(`
+        UPDATE processing_jobs
+        SET status = 'dead', lease_owner = NULL, lease_expires_at = NULL,
+            last_error = COALESCE(last_error, 'Lease expired while running'),
+            finished_at = datetime('now'), updated_at = datetime('now')
+        WHERE status = 'running' AND lease_expires_at <= datetime('now') AND attempts >= max_attempts
+      `).run();
+
+      const row = db.prepare(`
+        SELECT id FROM processing_jobs
+        WHERE (status = 'queued' AND run_after <= datetime('now'))
+           OR (status = 'running' AND lease_expires_at <= datetime('now'))
+        ORDER BY run_after, id
+        LIMIT 1
+      `).get() as { id: number } | undefined;
+
+      if (!row) return null;
+
+      db.prepare(`
+        UPDATE processing_jobs
+        SET status = 'running', attempts = attempts + 1, lease_owner = ?,
+            lease_expires_at = datetime('now', ?),
+            started_at = COALESCE(started_at, datetime('now')), updated_at = datetime('now')
+        WHERE id = ?
+      `).run(workerId, `+${JobQueue.getLeaseSeconds()} seconds`, row.id);
+
+      return row.id;
+    });
+
+    const id = claimJob();
+    return id === null ? null : this.get(id);
+  }
+
+  /**
+   * Extend the lease of a running job
+   * @returns boolean - False when the worker no longer holds the lease
+   */
+  renewLease(id: number, workerId: string): boolean {
+    const result = this.db.getDb().prepare(`
+      UPDATE processing_jobs
+      SET lease_expires_at = datetime('now', ?), updated_at = datetime('now')
+      WHERE id = ? AND status = 'running' AND lease_owner = ?
+    `).run(`+${JobQueue.getLeaseSeconds()} seconds`, id, workerId);
+    return result.changes > 0;
+  }
+
+  /**
+   * Mark a running job as succeeded
+   */
+  complete(id: number, workerId: string, result: ProcessingResult): void {
+    this.db.getDb().prepare(`
+      UPDATE processing_jobs
+      SET status = 'succeeded', result = ?, last_error = NULL,
+          lease_owner = NULL, lease_expires_at = NULL,
+          finished_at = datetime('now'), updated_at = datetime('now')
+      WHERE id = ? AND lease_owner = ?
+    `).run(JSON.stringify(result), id, workerId);
+  }
+
+  /**
+   * Record a failed attempt. Retryable failures are queued again after a
+   * backoff until the job runs out of attempts, when it is dead; other
+   * failures are final.
+   * @returns JobStatus - The job's new status
+   */
+  fail(id: number, workerId: string, error: string, retryable: boolean, result?: ProcessingResult): JobStatus {
+    const job = this.get(id);
+    if (!job || job.leaseOwner !== workerId) {
+      return job ? job.status : 'failed';
+    }
+
+    const status: JobStatus = !retryable ? 'failed' : job.attempts >= job.maxAttempts ? 'dead' : 'queued';
+
+    this.db.getDb().prepare(`
+      UPDATE processing_jobs
+      SET status = ?, last_error = ?, result = ?,
+          lease_owner = NULL, lease_expires_at = NULL,
+          run_after = datetime('now', ?),
+          finished_at = CASE WHEN ? = 'queued' THEN NULL ELSE datetime('now') END,
+          updated_at = datetime('now')
+      WHERE id = ?
+    `).run(
+      status,
+      error,
+      result ? JSON.stringify(result) : null,
+      `+${status === 'queued' ? JobQueue.getRetryDelaySeconds(job.attempts) : 0} seconds`,
+      status,
+      id
+    );
+
+    return status;
+  }
+
+  get(id: number): ProcessingJob | null {
+    const row = this.db.getDb().prepare('SELECT * FROM processing_jobs WHERE id = ?').get(id);
+    return row ? this.mapRow(row) : null;
+  }
+
+  /**
+   * A job with the pipeline steps logged for its document
+   */
+  getProgress(id: number): JobProgress | null {
+    const job = this.get(id);
+    if (!job) return null;
+
+    const steps = this.db.getDb().prepare(`
+      SELECT
+        processing_stage as stage,
+        success,
+        error_message as errorMessage,
+        processing_time_ms as processingTime,
+        processed_at as processedAt
+      FROM processing_log
+      WHERE email_id = ? AND filename = ? AND processed_at >= ?
+      ORDER BY id
+    `).all(job.emailId, job.filename, job.createdAt) as any[];
+
+    return {
+      ...job,
+      steps: steps.map(step => ({ ...step, success: !!step.success }))
+    };
+  }
+
+  /**
+   * Seconds until the next queued job becomes runnable or a running job's
+   * lease expires, or null when nothing is waiting
+   */
+  getSecondsUntilNextRunnable(): number | null {
+    const row = this.db.getDb().prepare(`
+      SELECT MIN(
+        CASE WHEN status = 'queued' THEN run_after ELSE lease_expires_at END
+      ) as nextAt
+      FROM processing_jobs
+      WHERE status IN ('queued', 'running')
+    `).get() as { nextAt: string | null };
+
+    if (!row.nextAt) return null;
+
+    const seconds = this.db.getDb().prepare(
+      "SELECT CAST(strftime('%s', ?) AS INTEGER) - CAST(strftime('%s', 'now') AS INTEGER) as seconds"
+    ).get(row.nextAt) as { seconds: number };
+    return Math.max(0, seconds.seconds);
+  }
+
+  /**
+   * Number of jobs in each status
+   */
+  getCounts(): Record<JobStatus, number> {
+    const counts: Record<JobStatus, number> = { queued: 0, running: 0, succeeded: 0, failed: 0, dead: 0 };
+    const rows = this.db.getDb().prepare(`
+      SELECT status, COUNT(*) as count FROM processing_jobs GROUP BY status
+    `).all() as Array<{ status: JobStatus; count: number }>;
+
+    rows.forEach(row => {
+      counts[row.status] = row.count;
+    });
+    return counts;
+  }
+
+  private mapRow(row: any): ProcessingJob {
+    return {
+      id: row.id,
+      type: row.type,
+      status: row.status,
+      payload: JSON.parse(row.payload),
+      emailId: row.email_id,
+      filename: row.filename,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      leaseOwner: row.lease_owner,
+      leaseExpiresAt: row.lease_expires_at,
+      runAfter: row.run_after,
+      lastError: row.last_error,
+      result: row.result ? JSON.parse(row.result) : null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at
+    };
+  }
+}
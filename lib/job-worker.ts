@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import os from 'os';
+import { BlobStore, createBlobStore } from './blob-store';
+import { DocumentJobPayload, EmailBodyJobPayload, JobQueue, ProcessingJob, ReprocessJobPayload } from './job-queue';
+import { ReceiptProcessor } from './receipt-processor';
+import { ProcessingResult } from '../types/receipt-types';
+
+// Longest wait before checking again for delayed retries and expired leases
+const MAX_IDLE_WAIT_MS = 60 * 1000;
+
+/**
+ * In-process worker that drains the job queue with JOB_CONCURRENCY parallel
+ * loops. It starts with the server and when jobs are enqueued, stops once the
+ * queue is empty and wakes itself up for retries that are waiting out their
+ * backoff.
+ */
+export class JobWorker {
+  private static instance: JobWorker;
+  private queue: JobQueue;
+  private blobStore: BlobStore;
+  private processor: ReceiptProcessor | null = null;
+  private activeLoops = 0;
+  private wakeTimer: NodeJS.Timeout | null = null;
+  readonly workerId: string;
+
+  private constructor() {
+    this.queue = JobQueue.getInstance();
+    this.blobStore = createBlobStore();
+    this.workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  public static getInstance(): JobWorker {
+    if (!JobWorker.instance) {
+      JobWorker.instance = new JobWorker();
+    }
+    return JobWorker.instance;
+  }
+
+  /**
+   * Jobs processed at the same time (JOB_CONCURRENCY, default 2)
+   */
+  static getConcurrency(): number {
+    return Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2', 10) || 2);
+  }
+
+  /**
+   * Start worker loops up to the configured concurrency
+   */
+  start(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    while (this.activeLoops < JobWorker.getConcurrency()) {
+      this.activeLoops++;
+      this.runLoop()
+        .catch(error => console.error('Job worker loop failed:', error))
+        .finally(() => {
+          this.activeLoops--;
+          if (this.activeLoops === 0) {
+            this.scheduleWake();
+          }
+        });
+    }
+  }
+
+  /**
+   * Claim and run jobs until none is runnable
+   */
+  private async runLoop(): Promise<void> {
+    let job: ProcessingJob | null;
+    while ((job = this.queue.claim(this.workerId))) {
+      await this.runJob(job);
+    }
+  }
+
+  /**
+   * Run one claimed job, keeping its lease alive while it runs
+   */
+  private async runJob(job: ProcessingJob): Promise<void> {
+    const heartbeat = setInterval(() => {
+      if (!this.queue.renewLease(job.id, this.workerId)) {
+        console.warn(`Lost the lease on job ${job.id}`);
+      }
+    }, (JobQueue.getLeaseSeconds() * 1000) / 3);
+    heartbeat.unref();
+
+    try {
+      const result = await this.execute(job);
+
+      if (result.success) {
+        this.queue.complete(job.id, this.workerId, result);
+      } else {
+        const status = this.queue.fail(job.id, this.workerId, result.error || result.message, !!result.retryable, result);
+        console.warn(`Job ${job.id} attempt ${job.attempts} failed (${result.stage}), now ${status}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const status = this.queue.fail(job.id, this.workerId, message, true);
+      console.error(`Job ${job.id} attempt ${job.attempts} threw, now ${status}:`, error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async execute(job: ProcessingJob): Promise<ProcessingResult> {
+    if (!this.processor) {
+      this.processor = new ReceiptProcessor();
+    }
+
+    switch (job.type) {
+      case 'process_document': {
+        const payload = job.payload as DocumentJobPayload;
+        const ingestionId = this.clearPreviousRun(this.processor, job, payload);
+        const data = await this.blobStore.get(payload.blobHash);
+        if (!data) {
+          return {
+            success: false,
+            stage: 'job',
+            message: `Attachment ${payload.filename} is missing from the blob store`
+          };
+        }
+
+        return this.processor.processDocument(
+          payload.emailId,
+          { filename: payload.filename, contentType: payload.contentType, data },
+          { sender: payload.sender, ingestionId },
+          payload.options
+        );
+      }
+
+      case 'process_email_body': {
+        const payload = job.payload as EmailBodyJobPayload;
+        const ingestionId = this.clearPreviousRun(this.processor, job, payload);
+        return this.processor.processEmailBody(payload.emailId, payload.body, { ingestionId });
+      }
+
+      // Stores a revision and leaves the ledger row alone, so retries need no cleanup
+      case 'reprocess_receipt': {
+        const payload = job.payload as ReprocessJobPayload;
+        return this.processor.reprocessLedgerEntry(payload.ledgerId, payload.options, job.id);
+      }
+
+      default:
+        return {
+          success: false,
+          stage: 'job',
+          message: `Unknown job type: ${job.type}`
+        };
+    }
+  }
+
+  /**
+   * A forced reprocess replaces what the earlier run stored, and a retry
+   * what an interrupted attempt may have stored
+   * @returns The ingestion id of the job
+   */
+  private clearPreviousRun(
+    processor: ReceiptProcessor,
+    job: ProcessingJob,
+    payload: DocumentJobPayload | EmailBodyJobPayload
+  ): number | undefined {
+    const { ingestionId, replaceExisting } = payload;
+    if (ingestionId !== undefined && (replaceExisting || job.attempts > 1)) {
+      const removed = processor.clearIngestionResults(ingestionId);
+      console.log(`Job ${job.id}: replacing ${removed} ledger rows of ingestion ${ingestionId}`);
+    }
+    return ingestionId;
+  }
+
+  /**
+   * Wake up again when a delayed retry becomes runnable or a lease expires
+   */
+  private scheduleWake(): void {
+    const seconds = this.queue.getSecondsUntilNextRunnable();
+    if (seconds === null || this.wakeTimer) return;
+
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.start();
+    }, Math.min(seconds * 1000 + 100, MAX_IDLE_WAIT_MS));
+    this.wakeTimer.unref();
+  }
+}
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { DatabaseManager } from './db';
+
+export interface LLMCacheKey {
+  task: string;
+  // SHA-256 of the cleaned document text the prompt was built from
+  textHash: string;
+  promptVersion: string;
+  model: string;
+}
+
+export interface LLMCacheInvalidation {
+  model?: string;
+  promptVersion?: string;
+}
+
+/**
+ * SQLite-backed cache of validated LLM results, so re-processing the same
+ * document with the same prompt and model does not pay for the calls again
+ */
+export class LLMResponseCache {
+  private static instance: LLMResponseCache;
+  private db: DatabaseManager;
+
+  private constructor() {
+    this.db = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): LLMResponseCache {
+    if (!LLMResponseCache.instance) {
+      LLMResponseCache.instance = new LLMResponseCache();
+    }
+    return LLMResponseCache.instance;
+  }
+
+  /**
+   * Whether the cache is enabled (LLM_CACHE_ENABLED, on by default)
+   */
+  static isEnabled(): boolean {
+    return process.env.LLM_CACHE_ENABLED !== 'false';
+  }
+
+  static hashText(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+  }
+
+  /**
+   * Look up a cached result and record the hit
+   */
+  get<T>({ task, textHash, promptVersion, model }: LLMCacheKey): T | null {
+    try {
+      const row = this.db.getDb().prepare(`
+        SELECT id, response FROM llm_response_cache
+        WHERE task = ? AND text_hash = ? AND prompt_version = ? AND model = ?
+      `).get(task, textHash, promptVersion, model) as { id: number; response: string } | undefined;
+
+      if (!row) return null;
+
+      this.db.getDb().prepare(`
+        UPDATE llm_response_cache
+        SET hit_count = hit_count + 1, last_hit_at = datetime('now')
+        WHERE id = ?
+      `).run(row.id);
+
+      return JSON.parse(row.response) as T;
+    } catch (error) {
+      console.error('Error reading LLM response cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a validated result
+   */
+  set<T>({ task, textHash, promptVersion, model }: LLMCacheKey, provider: string, response: T): void {
+    try {
+      this.db.getDb().prepare(`
+        INSERT OR REPLACE INTO llm_response_cache (
+          task, text_hash, prompt_version, model, provider,
+          response, hit_count, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, 0, datetime('now'))
+      `).run(task, textHash, promptVersion, model, provider, JSON.stringify(response));
+    } catch (error) {
+      console.error('Error writing LLM response cache:', error);
+    }
+  }
+
+  /**
+   * Delete cached entries for a model and/or prompt version.
+   * With no filter every entry is removed.
+   * @returns number - The number of entries removed
+   */
+  invalidate({ model, promptVersion }: LLMCacheInvalidation = {}): number {
+    const whereClauses = [];
+    const parameters = [];
+
+    if (model) {
+      whereClauses.push('model = ?');
+      parameters.push(model);
+    }
+
+    if (promptVersion) {
+      whereClauses.push('prompt_version = ?');
+      parameters.push(promptVersion);
+    }
+
+    const whereClause = whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : '';
+    const result = this.db.getDb().prepare(`DELETE FROM llm_response_cache ${whereClause}`).run(...parameters);
+
+    return result.changes;
+  }
+
+  /**
+   * Cache size and hit counts, overall and per model/prompt version
+   */
+  getStats() {
+    const overall = this.db.getDb().prepare(`
+      SELECT
+        COUNT(*) as entries,
+        COALESCE(SUM(hit_count), 0) as hits
+      FROM llm_response_cache
+    `).get() as { entries: number; hits: number };
+
+    const byModel = this.db.getDb().prepare(`
+      SELECT
+        model,
+        prompt_version as promptVersion,
+        task,
+        COUNT(*) as entries,
+        COALESCE(SUM(hit_count), 0) as hits
+      FROM llm_response_cache
+      GROUP BY model, prompt_version, task
+      ORDER BY hits DESC
+    `).all();
+
+    // Every entry was written by exactly one miss
+    const lookups = overall.hits + overall.entries;
+
+    return {
+      entries: overall.entries,
+      hits: overall.hits,
+      hitRate: lookups > 0 ? (overall.hits / lookups) * 100 : 0,
+      byModel
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import path from 'path';
+import { LLMProvider } from './llm-provider';
+import { GroqLLMProcessor, GROQ_DEFAULT_BASE_URL, GROQ_DEFAULT_MODEL } from './groq-processor';
+import { OpenAICompatibleLLMProcessor } from './openai-compatible-processor';
+import { OllamaLLMProcessor, OLLAMA_DEFAULT_BASE_URL } from './ollama-processor';
+import { FixtureLLMProcessor } from './fixture-processor';
+
+export type LLMProviderName = 'groq' | 'openai' | 'ollama' | 'fixture';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  fixtureDir?: string;
+}
+
+/**
+ * Read the LLM provider configuration from environment variables
+ */
+export function getLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || 'groq').toLowerCase() as LLMProviderName;
+
+  return {
+    provider,
+    model: env.LLM_MODEL,
+    baseUrl: env.LLM_BASE_URL,
+    apiKey: env.LLM_API_KEY || (provider === 'groq' ? env.GROQ_API_KEY : undefined),
+    fixtureDir: env.LLM_FIXTURE_DIR
+  };
+}
+
+/**
+ * Configuration of the optional second provider used for self-consistency
+ * voting (SECONDARY_LLM_PROVIDER, SECONDARY_LLM_MODEL, ...), or null when
+ * none is configured
+ */
+export function getSecondaryLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig | null {
+  if (!env.SECONDARY_LLM_PROVIDER) return null;
+
+  const provider = env.SECONDARY_LLM_PROVIDER.toLowerCase() as LLMProviderName;
+
+  return {
+    provider,
+    model: env.SECONDARY_LLM_MODEL,
+    baseUrl: env.SECONDARY_LLM_BASE_URL,
+    apiKey: env.SECONDARY_LLM_API_KEY || (provider === 'groq' ? env.GROQ_API_KEY : undefined),
+    fixtureDir: env.SECONDARY_LLM_FIXTURE_DIR
+  };
+}
+
+/**
+ * Create the LLM provider selected by the given (or environment) configuration
+ */
+export function createLLMProvider(config: LLMConfig = getLLMConfig()): LLMProvider {
+  switch (config.provider) {
+    case 'groq':
+      return new GroqLLMProcessor(
+        config.apiKey || '',
+        config.model || GROQ_DEFAULT_MODEL,
+        config.baseUrl || GROQ_DEFAULT_BASE_URL
+      );
+
+    case 'openai':
+      if (!config.baseUrl || !config.model) {
+        throw new Error('LLM_BASE_URL and LLM_MODEL are required for the openai provider');
+      }
+      return new OpenAICompatibleLLMProcessor({
+        baseUrl: config.baseUrl,
+        model: config.model,
+        apiKey: config.apiKey
+      });
+
+    case 'ollama':
+      if (!config.model) {
+        throw new Error('LLM_MODEL is required for the ollama provider');
+      }
+      return new OllamaLLMProcessor(config.model, config.baseUrl || OLLAMA_DEFAULT_BASE_URL);
+
+    case 'fixture':
+      return FixtureLLMProcessor.fromDirectory(
+        config.fixtureDir || path.join(process.cwd(), 'fixtures', 'llm')
+      );
+
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
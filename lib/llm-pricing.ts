@@ -0,0 +1,59 @@
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Built-in prices. Keys are "<provider>/<model>", "<model>" or "<provider>/*".
+ * Override or extend them with LLM_PRICE_TABLE.
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'meta-llama/llama-4-scout-17b-16e-instruct': { input: 0.11, output: 0.34 },
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  // Local models have no per-token cost
+  'ollama/*': { input: 0, output: 0 }
+};
+
+/**
+ * The active price table: the defaults merged with the JSON object in
+ * LLM_PRICE_TABLE, e.g. {"openai/gpt-4o-mini": {"input": 0.15, "output": 0.6}}
+ */
+export function getPriceTable(env: NodeJS.ProcessEnv = process.env): PriceTable {
+  if (!env.LLM_PRICE_TABLE) return DEFAULT_PRICE_TABLE;
+
+  try {
+    return { ...DEFAULT_PRICE_TABLE, ...(JSON.parse(env.LLM_PRICE_TABLE) as PriceTable) };
+  } catch (error) {
+    console.error('Ignoring invalid LLM_PRICE_TABLE:', error);
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+/**
+ * Find the price for a model, most specific key first
+ */
+export function findModelPrice(provider: string, model: string, table: PriceTable = getPriceTable()): ModelPrice | null {
+  return table[`${provider}/${model}`] || table[model] || table[`${provider}/*`] || null;
+}
+
+/**
+ * Estimated cost of one call in USD, or null when the model has no price
+ */
+export function estimateCost(
+  provider: string,
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  table: PriceTable = getPriceTable()
+): number | null {
+  const price = findModelPrice(provider, model, table);
+  if (!price) return null;
+
+  return (promptTokens * price.input + completionTokens * price.output) / 1000000;
+}
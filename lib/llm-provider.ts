@@ -0,0 +1,364 @@
+import { DocumentChunk, LLMChunkExtractionResult, LLMClassificationResult, LLMExtractionResult } from '../types/receipt-types';
+import {
+  parseJsonObject,
+  SchemaValidationResult,
+  validateChunkExtraction,
+  validateClassification,
+  validateExtraction
+} from './llm-schema';
+import { LLMResponseCache } from './llm-cache';
+import { estimateCost } from './llm-pricing';
+import { getActivePromptVersions, getPromptTemplate, PromptName, promptId, PromptVersions, renderPrompt } from './prompts';
+import { estimateTokens, RateLimiter } from './rate-limiter';
+import { withRetry } from './retry';
+
+export type LLMTask = PromptName;
+
+// Maximum document characters included in a single prompt
+export const MAX_PROMPT_CHARS = 6000;
+
+// Low temperature for factual responses
+export const DEFAULT_TEMPERATURE = 0.1;
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  task: LLMTask;
+  // The document text the prompt was built from (used by the fixture provider)
+  documentText: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  // Sampling temperature; providers fall back to DEFAULT_TEMPERATURE
+  temperature?: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  // Token counts reported by the provider, when it reports them
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+/**
+ * Token usage and estimated cost of one completion
+ */
+export interface LLMUsage {
+  task: LLMTask;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // USD, or null when the model is not in the price table
+  estimatedCost: number | null;
+}
+
+/**
+ * Outcome of a single request/validate round trip with the model
+ */
+export interface LLMAttempt {
+  task: LLMTask;
+  attempt: number;
+  success: boolean;
+  errors: string[];
+  processingTime: number;
+}
+
+export interface LLMCallOptions {
+  // Called after every attempt, including repair attempts
+  onAttempt?: (attempt: LLMAttempt) => void;
+  // Called for every completion that reports token usage
+  onUsage?: (usage: LLMUsage) => void;
+  // Overrides DEFAULT_TEMPERATURE for this call
+  temperature?: number;
+  // Neither read nor write the response cache, e.g. for repeated sampling
+  skipCache?: boolean;
+}
+
+/**
+ * Thrown when the model keeps returning output that fails schema validation
+ */
+export class LLMValidationError extends Error {
+  readonly task: LLMTask;
+  readonly errors: string[];
+
+  constructor(task: LLMTask, attempts: number, errors: string[]) {
+    super(`LLM ${task} response failed validation after ${attempts} attempt(s): ${errors.join('; ')}`);
+    this.name = 'LLMValidationError';
+    this.task = task;
+    this.errors = errors;
+  }
+}
+
+/**
+ * Thrown when the provider could not be reached or kept failing after retries
+ */
+export class LLMRequestError extends Error {
+  readonly task: LLMTask;
+  readonly status?: number;
+
+  constructor(task: LLMTask, provider: string, cause: any) {
+    const status = cause?.response?.status;
+    const detail = cause instanceof Error ? cause.message : String(cause);
+    super(`LLM ${task} request to ${provider} failed${status ? ` (HTTP ${status})` : ''}: ${detail}`);
+    this.name = 'LLMRequestError';
+    this.task = task;
+    this.status = status;
+  }
+}
+
+/**
+ * Common interface for every LLM backend used by the receipt pipeline
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  classifyDocument(text: string, options?: LLMCallOptions): Promise<LLMClassificationResult>;
+  extractReceiptData(text: string, options?: LLMCallOptions): Promise<LLMExtractionResult>;
+  extractReceiptChunk(text: string, chunk: DocumentChunk, options?: LLMCallOptions): Promise<LLMChunkExtractionResult>;
+  // Prompt template id (e.g. "extraction@v1") currently used for a task
+  getPromptId(task: LLMTask): string;
+  usePromptVersions(versions: Partial<PromptVersions>): void;
+}
+
+/**
+ * Shared prompt building and response parsing for chat-style LLM providers.
+ * Subclasses only need to implement the transport in `complete`.
+ */
+export abstract class BaseLLMProcessor implements LLMProvider {
+  abstract readonly name: string;
+  readonly model: string;
+  // Endpoint requests go to, for providers with a configurable server
+  protected baseUrl?: string;
+  // Number of re-prompts allowed after the first invalid response
+  protected maxRepairAttempts: number = parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '2', 10);
+  // Whether results are read from and written to the response cache
+  protected useCache: boolean = LLMResponseCache.isEnabled();
+  protected promptVersions: PromptVersions = getActivePromptVersions();
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  /**
+   * Send a chat completion request and return the raw message content
+   */
+  protected abstract complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+
+  /**
+   * Override the active prompt versions (used by the evaluation harness)
+   */
+  usePromptVersions(versions: Partial<PromptVersions>): void {
+    this.promptVersions = { ...this.promptVersions, ...versions };
+  }
+
+  getPromptId(task: LLMTask): string {
+    return promptId(task, this.promptVersions[task]);
+  }
+
+  async classifyDocument(text: string, options: LLMCallOptions = {}): Promise<LLMClassificationResult> {
+    const startTime = Date.now();
+
+    try {
+      const result = await this.completeCached(text, {
+        task: 'classification',
+        documentText: text,
+        messages: this.buildMessages('classification', text),
+        maxTokens: 1000 // Limit token usage
+      }, validateClassification, options);
+
+      console.log(`Document classification completed in ${Date.now() - startTime}ms (${this.name}/${this.model}, ${this.getPromptId('classification')})`);
+      return result;
+
+    } catch (error) {
+      console.error('Error in document classification:', error);
+      throw error;
+    }
+  }
+
+  async extractReceiptData(text: string, options: LLMCallOptions = {}): Promise<LLMExtractionResult> {
+    const startTime = Date.now();
+
+    try {
+      const result = await this.completeCached(text, {
+        task: 'extraction',
+        documentText: text,
+        messages: this.buildMessages('extraction', text),
+        maxTokens: 2000
+      }, validateExtraction, options);
+
+      console.log(`Receipt extraction completed in ${Date.now() - startTime}ms (${this.name}/${this.model}, ${this.getPromptId('extraction')})`);
+      return result;
+
+    } catch (error) {
+      console.error('Error in receipt extraction:', error);
+      throw error;
+    }
+  }
+
+  async extractReceiptChunk(
+    text: string,
+    chunk: DocumentChunk,
+    options: LLMCallOptions = {}
+  ): Promise<LLMChunkExtractionResult> {
+    const startTime = Date.now();
+
+    try {
+      const messages = this.buildMessages('chunk_extraction', text, {
+        chunkNumber: chunk.index + 1,
+        chunkCount: chunk.count,
+        pageLabel: chunk.startPage === chunk.endPage
+          ? `page ${chunk.startPage}`
+          : `pages ${chunk.startPage}-${chunk.endPage}`
+      });
+
+      // The chunk position is part of the prompt, so it is part of the cache key too
+      const result = await this.completeCached(`${chunk.index}/${chunk.count}\n${text}`, {
+        task: 'chunk_extraction',
+        documentText: text,
+        messages,
+        maxTokens: 2000
+      }, validateChunkExtraction, options);
+
+      console.log(`Chunk ${chunk.index + 1}/${chunk.count} extraction completed in ${Date.now() - startTime}ms (${this.name}/${this.model})`);
+      return result;
+
+    } catch (error) {
+      console.error(`Error in chunk ${chunk.index + 1}/${chunk.count} extraction:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Render the active template for a task, truncating the document text
+   * if it's too long to fit in the context window
+   */
+  private buildMessages(task: LLMTask, text: string, variables: Record<string, string | number> = {}): ChatMessage[] {
+    const truncatedText = text.length > MAX_PROMPT_CHARS ? text.substring(0, MAX_PROMPT_CHARS) : text;
+    const template = getPromptTemplate(task, this.promptVersions[task]);
+    return renderPrompt(template, { ...variables, documentText: truncatedText });
+  }
+
+  /**
+   * Return the cached result for this text, prompt version and model when
+   * there is one; otherwise run the request and cache the validated result
+   */
+  private async completeCached<T>(
+    cacheText: string,
+    request: LLMCompletionRequest,
+    validate: (json: any) => SchemaValidationResult<T>,
+    options: LLMCallOptions
+  ): Promise<T> {
+    const cacheKey = {
+      task: request.task,
+      textHash: LLMResponseCache.hashText(cacheText),
+      promptVersion: this.getPromptId(request.task),
+      model: this.model
+    };
+
+    const cache = this.useCache && !options.skipCache ? LLMResponseCache.getInstance() : null;
+
+    const cached = cache?.get<T>(cacheKey);
+    if (cached) {
+      console.log(`LLM ${request.task} served from cache (${this.name}/${this.model})`);
+      return cached;
+    }
+
+    const result = await this.completeValidated(request, validate, options);
+    cache?.set(cacheKey, this.name, result);
+    return result;
+  }
+
+  /**
+   * Request a completion and validate it against the schema. On a violation
+   * the model is re-prompted with the validation errors, up to
+   * `maxRepairAttempts` times, before giving up with an LLMValidationError.
+   */
+  private async completeValidated<T>(
+    request: LLMCompletionRequest,
+    validate: (json: any) => SchemaValidationResult<T>,
+    { onAttempt, onUsage, temperature }: LLMCallOptions
+  ): Promise<T> {
+    const messages = [...request.messages];
+    const maxAttempts = this.maxRepairAttempts + 1;
+    let errors: string[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const attemptStartTime = Date.now();
+      const { content, usage } = await this.callModel({ ...request, messages, temperature });
+
+      if (usage) {
+        onUsage?.({
+          task: request.task,
+          provider: this.name,
+          model: this.model,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          estimatedCost: estimateCost(this.name, this.model, usage.promptTokens, usage.completionTokens)
+        });
+      }
+
+      const parsed = parseJsonObject(content);
+      const validation = parsed.value ? validate(parsed.value) : { valid: false, errors: parsed.errors };
+      errors = validation.errors;
+
+      onAttempt?.({
+        task: request.task,
+        attempt,
+        success: validation.valid,
+        errors,
+        processingTime: Date.now() - attemptStartTime
+      });
+
+      if (validation.valid && validation.value) {
+        return validation.value;
+      }
+
+      console.warn(`LLM ${request.task} attempt ${attempt}/${maxAttempts} failed validation:`, errors);
+
+      // Show the model its previous answer and what was wrong with it
+      messages.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your previous response did not match the required schema:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with corrected JSON only, using the same format as before.`
+        }
+      );
+    }
+
+    throw new LLMValidationError(request.task, maxAttempts, errors);
+  }
+
+  /**
+   * Call `complete` through the provider's shared rate limiter, retrying
+   * 429/5xx and network errors with backoff
+   */
+  private async callModel(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const limiter = RateLimiter.forProvider(this.name, this.baseUrl, this.model);
+    const promptText = request.messages.map(message => message.content).join('\n');
+    const estimatedTokens = estimateTokens(promptText) + request.maxTokens;
+
+    try {
+      return await withRetry(
+        () => limiter.schedule(estimatedTokens, () => this.complete(request)),
+        {
+          onRetry: (error, attempt, delayMs) => {
+            console.warn(
+              `LLM ${request.task} request to ${this.name} failed (attempt ${attempt}), retrying in ${Math.round(delayMs)}ms:`,
+              error?.response?.status || error?.message
+            );
+          }
+        }
+      );
+    } catch (error) {
+      throw new LLMRequestError(request.task, this.name, error);
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import { LLMChunkExtractionResult, LLMClassificationResult, LLMExtractionResult, LineItem } from '../types/receipt-types';
+
+export interface SchemaValidationResult<T> {
+  valid: boolean;
+  value?: T;
+  errors: string[];
+}
+
+const DOCUMENT_TYPES = ['receipt', 'invoice', 'statement', 'other'];
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Check that a value is a real calendar date in YYYY-MM-DD format
+ */
+export function isIsoDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function checkConfidence(value: unknown, errors: string[]): void {
+  if (!isNumber(value) || value < 0 || value > 100) {
+    errors.push('confidence must be a number between 0 and 100');
+  }
+}
+
+/**
+ * Parse raw model output as a JSON object
+ */
+export function parseJsonObject(content: string): { value?: any; errors: string[] } {
+  try {
+    const value = JSON.parse(content);
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return { errors: ['response must be a single JSON object'] };
+    }
+    return { value, errors: [] };
+  } catch (error) {
+    return { errors: [`response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+}
+
+/**
+ * Strictly validate a classification response from the LLM
+ */
+export function validateClassification(json: any): SchemaValidationResult<LLMClassificationResult> {
+  const errors: string[] = [];
+
+  if (typeof json.isReceipt !== 'boolean') {
+    errors.push('isReceipt must be a boolean');
+  }
+  checkConfidence(json.confidence, errors);
+  if (!DOCUMENT_TYPES.includes(json.documentType)) {
+    errors.push(`documentType must be one of ${DOCUMENT_TYPES.map(type => `"${type}"`).join(', ')}`);
+  }
+  if (!isNonEmptyString(json.reasoning)) {
+    errors.push('reasoning must be a non-empty string');
+  }
+  if (!isStringArray(json.keyIndicators)) {
+    errors.push('keyIndicators must be an array of strings');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors,
+    value: {
+      isReceipt: json.isReceipt,
+      confidence: json.confidence,
+      documentType: json.documentType,
+      reasoning: json.reasoning,
+      keyIndicators: json.keyIndicators
+    }
+  };
+}
+
+function checkLineItems(value: unknown, errors: string[]): void {
+  if (!Array.isArray(value)) {
+    errors.push('lineItems must be an array');
+    return;
+  }
+  value.forEach((item: any, index: number) => {
+    if (!item || typeof item !== 'object') {
+      errors.push(`lineItems[${index}] must be an object`);
+      return;
+    }
+    if (!isNonEmptyString(item.name)) {
+      errors.push(`lineItems[${index}].name must be a non-empty string`);
+    }
+    if (!isNumber(item.price)) {
+      errors.push(`lineItems[${index}].price must be a number`);
+    }
+    if (item.quantity !== undefined && item.quantity !== null && (!isNumber(item.quantity) || item.quantity <= 0)) {
+      errors.push(`lineItems[${index}].quantity must be a positive number`);
+    }
+  });
+}
+
+const normalizeLineItems = (items: any[]): LineItem[] =>
+  items.map(item => ({
+    name: item.name,
+    price: item.price,
+    quantity: item.quantity ?? 1
+  }));
+
+/**
+ * Strictly validate an extraction response from the LLM.
+ * taxAmount, subtotal and paymentMethod may be null when the receipt
+ * genuinely does not show them; every other field is required.
+ */
+export function validateExtraction(json: any): SchemaValidationResult<LLMExtractionResult> {
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(json.merchantName)) {
+    errors.push('merchantName must be a non-empty string');
+  }
+  if (!isIsoDate(json.transactionDate)) {
+    errors.push('transactionDate must be a valid date in YYYY-MM-DD format');
+  }
+  if (!isNumber(json.totalAmount) || json.totalAmount < 0) {
+    errors.push('totalAmount must be a non-negative number');
+  }
+  for (const field of ['taxAmount', 'subtotal']) {
+    if (json[field] !== null && json[field] !== undefined && (!isNumber(json[field]) || json[field] < 0)) {
+      errors.push(`${field} must be a non-negative number or null`);
+    }
+  }
+  if (json.paymentMethod !== null && json.paymentMethod !== undefined && typeof json.paymentMethod !== 'string') {
+    errors.push('paymentMethod must be a string or null');
+  }
+
+  checkLineItems(json.lineItems, errors);
+  checkConfidence(json.confidence, errors);
+  if (!isStringArray(json.extractionIssues)) {
+    errors.push('extractionIssues must be an array of strings');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const lineItems = normalizeLineItems(json.lineItems);
+
+  return {
+    valid: true,
+    errors,
+    value: {
+      merchantName: json.merchantName,
+      transactionDate: json.transactionDate,
+      totalAmount: json.totalAmount,
+      taxAmount: json.taxAmount ?? undefined,
+      subtotal: json.subtotal ?? undefined,
+      lineItems,
+      paymentMethod: json.paymentMethod ?? undefined,
+      confidence: json.confidence,
+      extractionIssues: json.extractionIssues
+    }
+  };
+}
+
+/**
+ * Validate the extraction response for one chunk of a long document.
+ * Every header field and total may be null, since a chunk usually shows
+ * only part of the receipt.
+ */
+export function validateChunkExtraction(json: any): SchemaValidationResult<LLMChunkExtractionResult> {
+  const errors: string[] = [];
+
+  const isNullish = (value: unknown) => value === null || value === undefined;
+
+  if (!isNullish(json.merchantName) && !isNonEmptyString(json.merchantName)) {
+    errors.push('merchantName must be a non-empty string or null');
+  }
+  if (!isNullish(json.transactionDate) && !isIsoDate(json.transactionDate)) {
+    errors.push('transactionDate must be a valid date in YYYY-MM-DD format or null');
+  }
+  for (const field of ['totalAmount', 'taxAmount', 'subtotal']) {
+    if (!isNullish(json[field]) && (!isNumber(json[field]) || json[field] < 0)) {
+      errors.push(`${field} must be a non-negative number or null`);
+    }
+  }
+  if (!isNullish(json.paymentMethod) && typeof json.paymentMethod !== 'string') {
+    errors.push('paymentMethod must be a string or null');
+  }
+  checkLineItems(json.lineItems, errors);
+  checkConfidence(json.confidence, errors);
+  if (!isStringArray(json.extractionIssues)) {
+    errors.push('extractionIssues must be an array of strings');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors,
+    value: {
+      merchantName: json.merchantName ?? null,
+      transactionDate: json.transactionDate ?? null,
+      totalAmount: json.totalAmount ?? null,
+      taxAmount: json.taxAmount ?? null,
+      subtotal: json.subtotal ?? null,
+      lineItems: normalizeLineItems(json.lineItems),
+      paymentMethod: json.paymentMethod ?? null,
+      confidence: json.confidence,
+      extractionIssues: json.extractionIssues
+    }
+  };
+}
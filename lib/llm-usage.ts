@@ -0,0 +1,123 @@
+import { DatabaseManager } from './db';
+import { LLMUsage } from './llm-provider';
+
+/**
+ * Per-call record of LLM token usage and estimated cost, in the llm_usage table
+ */
+export class LLMUsageLog {
+  private static instance: LLMUsageLog;
+  private db: DatabaseManager;
+
+  private constructor() {
+    this.db = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): LLMUsageLog {
+    if (!LLMUsageLog.instance) {
+      LLMUsageLog.instance = new LLMUsageLog();
+    }
+    return LLMUsageLog.instance;
+  }
+
+  /**
+   * Store the usage of one completion made while processing a document
+   */
+  record(emailId: string, filename: string, usage: LLMUsage): void {
+    try {
+      this.db.getDb().prepare(`
+        INSERT INTO llm_usage (
+          email_id, filename, task, provider, model,
+          prompt_tokens, completion_tokens, estimated_cost, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      `).run(
+        emailId,
+        filename,
+        usage.task,
+        usage.provider,
+        usage.model,
+        usage.promptTokens,
+        usage.completionTokens,
+        usage.estimatedCost
+      );
+    } catch (error) {
+      console.error('Error recording LLM usage:', error);
+    }
+  }
+
+  /**
+   * Token and cost totals overall, per day (last 30 days), per stage and
+   * per model, plus the average cost of each receipt stored in the ledger
+   */
+  getStats() {
+    const overall = this.db.getDb().prepare(`
+      SELECT
+        COUNT(*) as calls,
+        COALESCE(SUM(prompt_tokens), 0) as promptTokens,
+        COALESCE(SUM(completion_tokens), 0) as completionTokens,
+        COALESCE(SUM(estimated_cost), 0) as cost,
+        SUM(CASE WHEN estimated_cost IS NULL THEN 1 ELSE 0 END) as unpricedCalls
+      FROM llm_usage
+    `).get() as {
+      calls: number;
+      promptTokens: number;
+      completionTokens: number;
+      cost: number;
+      unpricedCalls: number | null;
+    };
+
+    const byDay = this.db.getDb().prepare(`
+      SELECT
+        date(created_at) as day,
+        COUNT(*) as calls,
+        SUM(prompt_tokens + completion_tokens) as tokens,
+        COALESCE(SUM(estimated_cost), 0) as cost
+      FROM llm_usage
+      WHERE created_at >= date('now', '-30 days')
+      GROUP BY day
+      ORDER BY day DESC
+    `).all();
+
+    const byStage = this.db.getDb().prepare(`
+      SELECT
+        task as stage,
+        COUNT(*) as calls,
+        SUM(prompt_tokens) as promptTokens,
+        SUM(completion_tokens) as completionTokens,
+        COALESCE(SUM(estimated_cost), 0) as cost
+      FROM llm_usage
+      GROUP BY task
+      ORDER BY cost DESC
+    `).all();
+
+    const byModel = this.db.getDb().prepare(`
+      SELECT
+        provider,
+        model,
+        COUNT(*) as calls,
+        SUM(prompt_tokens + completion_tokens) as tokens,
+        COALESCE(SUM(estimated_cost), 0) as cost
+      FROM llm_usage
+      GROUP BY provider, model
+      ORDER BY cost DESC
+    `).all();
+
+    // Spend on failed and non-receipt documents is included, so this is
+    // what each receipt that made it into the ledger cost overall
+    const { receipts } = this.db.getDb().prepare(`
+      SELECT COUNT(*) as receipts FROM receipt_ledger
+    `).get() as { receipts: number };
+
+    return {
+      calls: overall.calls,
+      promptTokens: overall.promptTokens,
+      completionTokens: overall.completionTokens,
+      totalCost: overall.cost,
+      unpricedCalls: overall.unpricedCalls || 0,
+      successfulReceipts: receipts,
+      costPerReceipt: receipts > 0 ? overall.cost / receipts : 0,
+      byDay,
+      byStage,
+      byModel
+    };
+  }
+}
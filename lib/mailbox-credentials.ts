@@ -0,0 +1,142 @@
+import { DatabaseManager } from './db';
+import { GmailService } from './gmail-service';
+import { SecretBox } from './secret-box';
+
+export interface MailboxCredentials {
+  account: string;
+  accessToken: string;
+  // Epoch milliseconds, when Google reported an expiry
+  accessTokenExpiresAt: number | null;
+  // Lets the server get new access tokens; null for accounts signed in without offline access
+  refreshToken: string | null;
+}
+
+/**
+ * What is stored for an account, without decrypting its tokens
+ */
+export interface MailboxCredentialStatus {
+  account: string;
+  hasRefreshToken: boolean;
+  accessTokenExpiresAt: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * OAuth tokens of each connected Gmail account, saved at sign-in and
+ * encrypted at rest in the mailbox_credentials table, so push notifications
+ * and background jobs can read the mailbox without a browser session.
+ */
+export class MailboxCredentialStore {
+  private static instance: MailboxCredentialStore;
+  private db: DatabaseManager;
+
+  private constructor() {
+    this.db = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): MailboxCredentialStore {
+    if (!MailboxCredentialStore.instance) {
+      MailboxCredentialStore.instance = new MailboxCredentialStore();
+    }
+    return MailboxCredentialStore.instance;
+  }
+
+  /**
+   * Accounts are keyed by their lowercased address
+   */
+  static normalizeAccount(account: string): string {
+    return account.trim().toLowerCase();
+  }
+
+  /**
+   * Add or replace the tokens of an account. Google only sends a refresh
+   * token on some grants, so a missing one keeps the stored refresh token.
+   * @throws Error when SETTINGS_ENCRYPTION_KEY is not set
+   */
+  save(account: string, accessToken: string, accessTokenExpiresAt: number | null, refreshToken?: string | null): void {
+    this.db.getDb().prepare(`
+      INSERT INTO mailbox_credentials (
+        account, encrypted_access_token, access_token_expires_at, encrypted_refresh_token, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+      ON CONFLICT(account) DO UPDATE SET
+        encrypted_access_token = excluded.encrypted_access_token,
+        access_token_expires_at = excluded.access_token_expires_at,
+        encrypted_refresh_token = COALESCE(excluded.encrypted_refresh_token, encrypted_refresh_token),
+        updated_at = excluded.updated_at
+    `).run(
+      MailboxCredentialStore.normalizeAccount(account),
+      SecretBox.encrypt(accessToken),
+      accessTokenExpiresAt,
+      refreshToken ? SecretBox.encrypt(refreshToken) : null
+    );
+  }
+
+  get(account: string): MailboxCredentials | null {
+    const row = this.db.getDb().prepare(`
+      SELECT account, encrypted_access_token, access_token_expires_at, encrypted_refresh_token
+      FROM mailbox_credentials
+      WHERE account = ?
+    `).get(MailboxCredentialStore.normalizeAccount(account)) as {
+      account: string;
+      encrypted_access_token: string;
+      access_token_expires_at: number | null;
+      encrypted_refresh_token: string | null;
+    } | undefined;
+
+    if (!row) return null;
+
+    return {
+      account: row.account,
+      accessToken: SecretBox.decrypt(row.encrypted_access_token),
+      accessTokenExpiresAt: row.access_token_expires_at,
+      refreshToken: row.encrypted_refresh_token ? SecretBox.decrypt(row.encrypted_refresh_token) : null
+    };
+  }
+
+  getStatus(account: string): MailboxCredentialStatus | null {
+    const row = this.db.getDb().prepare(`
+      SELECT account, encrypted_refresh_token IS NOT NULL AS has_refresh_token, access_token_expires_at, created_at, updated_at
+      FROM mailbox_credentials
+      WHERE account = ?
+    `).get(MailboxCredentialStore.normalizeAccount(account)) as any;
+
+    if (!row) return null;
+
+    return {
+      account: row.account,
+      hasRefreshToken: row.has_refresh_token === 1,
+      accessTokenExpiresAt: row.access_token_expires_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  /**
+   * Forget the tokens of an account
+   * @returns boolean - False when none were stored
+   */
+  remove(account: string): boolean {
+    const result = this.db.getDb().prepare(`
+      DELETE FROM mailbox_credentials WHERE account = ?
+    `).run(MailboxCredentialStore.normalizeAccount(account));
+    return result.changes > 0;
+  }
+}
+
+/**
+ * Gmail client for an account's stored credentials. Refreshed tokens are
+ * saved back to the store, so every client of the account uses the latest one.
+ */
+export function createGmailClient(credentials: MailboxCredentials): GmailService {
+  return new GmailService(credentials.accessToken, credentials.refreshToken || undefined, {
+    accessTokenExpiresAt: credentials.accessTokenExpiresAt,
+    onTokens: (accessToken, expiresAt, refreshToken) => {
+      try {
+        MailboxCredentialStore.getInstance().save(credentials.account, accessToken, expiresAt, refreshToken);
+      } catch (error) {
+        console.error(`Error saving refreshed tokens of ${credentials.account}:`, error);
+      }
+    }
+  });
+}
@@ -0,0 +1,238 @@
+import { DatabaseManager } from './db';
+import { MailboxCredentialStore } from './mailbox-credentials';
+
+export interface MailboxSyncState {
+  account: string;
+  // Gmail history id the mailbox has been processed up to
+  historyId: string | null;
+  // Epoch milliseconds when the Gmail watch lapses; null when there is no watch
+  watchExpiration: number | null;
+  lastSyncedAt: string | null;
+  // Last time the cursor had expired and recent messages were listed instead
+  lastFullSyncAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  lastWatchRenewalAt: string | null;
+  // Error of the last watch renewal; null when it succeeded
+  watchRenewalError: string | null;
+  watchRenewalFailures: number;
+  // Epoch milliseconds before which a failed renewal is not retried
+  nextWatchRenewalAt: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Compare two Gmail history ids. They are unsigned 64-bit integers sent as
+ * strings, too large to compare as numbers.
+ * @returns Negative, zero or positive, like a sort comparator
+ */
+export function compareHistoryIds(a: string, b: string): number {
+  const left = a.replace(/^0+/, '');
+  const right = b.replace(/^0+/, '');
+  if (left.length !== right.length) return left.length - right.length;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Per-account Gmail sync cursor in the mailbox_sync_state table, with the
+ * account's watch expiry and the outcome of its last sync
+ */
+export class MailboxSyncStateStore {
+  private static instance: MailboxSyncStateStore;
+  private db: DatabaseManager;
+
+  private constructor() {
+    this.db = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): MailboxSyncStateStore {
+    if (!MailboxSyncStateStore.instance) {
+      MailboxSyncStateStore.instance = new MailboxSyncStateStore();
+    }
+    return MailboxSyncStateStore.instance;
+  }
+
+  /**
+   * Every account with sync state, in address order
+   */
+  list(): MailboxSyncState[] {
+    const rows = this.db.getDb().prepare('SELECT * FROM mailbox_sync_state ORDER BY account').all() as any[];
+    return rows.map(row => this.mapRow(row));
+  }
+
+  get(account: string): MailboxSyncState | null {
+    const row = this.db.getDb().prepare(`
+      SELECT * FROM mailbox_sync_state WHERE account = ?
+    `).get(MailboxCredentialStore.normalizeAccount(account));
+    return row ? this.mapRow(row) : null;
+  }
+
+  /**
+   * Move the account's cursor to a history id. The cursor only moves
+   * forward, so a late or replayed notification cannot rewind it.
+   * @returns boolean - True when the cursor moved
+   */
+  advanceHistoryId(account: string, historyId: string): boolean {
+    const normalized = MailboxCredentialStore.normalizeAccount(account);
+    const db = this.db.getDb();
+
+    return db.transaction(() => {
+      const current = this.get(normalized);
+      if (current?.historyId && compareHistoryIds(historyId, current.historyId) <= 0) {
+        return false;
+      }
+
+      db.prepare(`
+        INSERT INTO mailbox_sync_state (account, history_id, created_at, updated_at)
+        VALUES (?, ?, datetime('now'), datetime('now'))
+        ON CONFLICT(account) DO UPDATE SET
+          history_id = excluded.history_id,
+          updated_at = excluded.updated_at
+      `).run(normalized, historyId);
+      return true;
+    })();
+  }
+
+  /**
+   * Record a successful read of the mailbox up to a history id, which
+   * clears the last error
+   * @param fullSync - True when the cursor had expired and recent messages were listed instead
+   */
+  recordSync(account: string, historyId: string, fullSync = false): void {
+    const normalized = MailboxCredentialStore.normalizeAccount(account);
+    const db = this.db.getDb();
+
+    db.transaction(() => {
+      this.advanceHistoryId(normalized, historyId);
+      db.prepare(`
+        UPDATE mailbox_sync_state
+        SET last_synced_at = datetime('now'),
+            last_full_sync_at = CASE WHEN ? THEN datetime('now') ELSE last_full_sync_at END,
+            last_error = NULL,
+            last_error_at = NULL,
+            updated_at = datetime('now')
+        WHERE account = ?
+      `).run(fullSync ? 1 : 0, normalized);
+    })();
+  }
+
+  /**
+   * Record a new or renewed Gmail watch. The watch's history id becomes the
+   * cursor when the account has none, so processing starts from the watch.
+   * @param expiration - Epoch milliseconds, as returned by users.watch
+   */
+  recordWatch(account: string, historyId: string, expiration: number | null): void {
+    const normalized = MailboxCredentialStore.normalizeAccount(account);
+    this.ensureRow(normalized);
+    this.db.getDb().prepare(`
+      UPDATE mailbox_sync_state
+      SET history_id = COALESCE(history_id, ?),
+          watch_expiration = ?,
+          last_watch_renewal_at = datetime('now'),
+          watch_renewal_error = NULL,
+          watch_renewal_failures = 0,
+          next_watch_renewal_at = NULL,
+          updated_at = datetime('now')
+      WHERE account = ?
+    `).run(historyId, expiration, normalized);
+  }
+
+  /**
+   * Record a failed watch renewal; the current watch is kept until it lapses
+   * @param retryAt - Epoch milliseconds of the next attempt
+   */
+  recordWatchRenewalFailure(account: string, error: string, retryAt: number): void {
+    this.db.getDb().prepare(`
+      UPDATE mailbox_sync_state
+      SET last_watch_renewal_at = datetime('now'),
+          watch_renewal_error = ?,
+          watch_renewal_failures = COALESCE(watch_renewal_failures, 0) + 1,
+          next_watch_renewal_at = ?,
+          updated_at = datetime('now')
+      WHERE account = ?
+    `).run(error, retryAt, MailboxCredentialStore.normalizeAccount(account));
+  }
+
+  /**
+   * Accounts whose watch lapses before a time, or already has, and that are
+   * not waiting out the backoff of a failed renewal
+   */
+  listWatchesDue(renewBefore: number, now: number): MailboxSyncState[] {
+    const rows = this.db.getDb().prepare(`
+      SELECT * FROM mailbox_sync_state
+      WHERE watch_expiration IS NOT NULL
+        AND watch_expiration <= ?
+        AND (next_watch_renewal_at IS NULL OR next_watch_renewal_at <= ?)
+      ORDER BY watch_expiration
+    `).all(renewBefore, now) as any[];
+    return rows.map(row => this.mapRow(row));
+  }
+
+  /**
+   * Earliest time a watch becomes due for renewal
+   * @param leadMs - How long before its expiry a watch is renewed
+   * @returns Epoch milliseconds, or null when no account has a watch
+   */
+  getNextWatchRenewalTime(leadMs: number): number | null {
+    const row = this.db.getDb().prepare(`
+      SELECT MIN(MAX(watch_expiration - ?, COALESCE(next_watch_renewal_at, 0))) AS next_at
+      FROM mailbox_sync_state
+      WHERE watch_expiration IS NOT NULL
+    `).get(leadMs) as { next_at: number | null };
+    return row.next_at;
+  }
+
+  /**
+   * Record that the account's watch was stopped, so it is no longer renewed
+   */
+  clearWatch(account: string): void {
+    this.db.getDb().prepare(`
+      UPDATE mailbox_sync_state
+      SET watch_expiration = NULL,
+          watch_renewal_failures = 0,
+          next_watch_renewal_at = NULL,
+          updated_at = datetime('now')
+      WHERE account = ?
+    `).run(MailboxCredentialStore.normalizeAccount(account));
+  }
+
+  /**
+   * Record why the last sync of the account failed; the cursor is unchanged
+   */
+  recordError(account: string, error: string): void {
+    const normalized = MailboxCredentialStore.normalizeAccount(account);
+    this.ensureRow(normalized);
+    this.db.getDb().prepare(`
+      UPDATE mailbox_sync_state
+      SET last_error = ?, last_error_at = datetime('now'), updated_at = datetime('now')
+      WHERE account = ?
+    `).run(error, normalized);
+  }
+
+  private ensureRow(account: string): void {
+    this.db.getDb().prepare(`
+      INSERT INTO mailbox_sync_state (account, created_at, updated_at)
+      VALUES (?, datetime('now'), datetime('now'))
+      ON CONFLICT(account) DO NOTHING
+    `).run(account);
+  }
+
+  private mapRow(row: any): MailboxSyncState {
+    return {
+      account: row.account,
+      historyId: row.history_id,
+      watchExpiration: row.watch_expiration ?? null,
+      lastSyncedAt: row.last_synced_at ?? null,
+      lastFullSyncAt: row.last_full_sync_at ?? null,
+      lastError: row.last_error ?? null,
+      lastErrorAt: row.last_error_at ?? null,
+      lastWatchRenewalAt: row.last_watch_renewal_at ?? null,
+      watchRenewalError: row.watch_renewal_error ?? null,
+      watchRenewalFailures: row.watch_renewal_failures ?? 0,
+      nextWatchRenewalAt: row.next_watch_renewal_at ?? null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
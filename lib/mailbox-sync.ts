@@ -0,0 +1,206 @@
+import { GmailService } from './gmail-service';
+import { EnqueuedJob, JobQueue } from './job-queue';
+import { JobWorker } from './job-worker';
+import { MailboxCredentialStore } from './mailbox-credentials';
+import { compareHistoryIds, MailboxSyncStateStore } from './mailbox-sync-state';
+import { getWatchedLabelIds, isInWatchScope, MailboxWatchSettings, MailboxWatchSettingsStore } from './mailbox-watch-settings';
+import { EmailData } from '../types/receipt-types';
+
+// Messages listed at most when recovering from an expired cursor
+const DEFAULT_FULL_SYNC_MAX_MESSAGES = 500;
+// Listing starts this long before the last successful sync, for clock differences
+const FULL_SYNC_OVERLAP_MS = 60 * 60 * 1000;
+
+export interface MailboxSyncResult {
+  account: string;
+  // 'processed': history was read from the cursor and receipts enqueued
+  // 'full_sync': the cursor had expired; messages since the last sync were listed instead
+  // 'cursor_initialized': no cursor yet; the mailbox's current historyId is the starting point
+  // 'already_processed': the cursor is already at or past the notified historyId
+  status: 'processed' | 'full_sync' | 'cursor_initialized' | 'already_processed';
+  historyId: string;
+  messages: number;
+  jobs: EnqueuedJob[];
+}
+
+/**
+ * Gmail returns 404 for a startHistoryId it no longer keeps history for
+ */
+function isExpiredCursor(error: any): boolean {
+  return error?.code === 404 || error?.response?.status === 404;
+}
+
+/**
+ * SQLite datetime('now') values are UTC without a zone
+ */
+function parseSqliteDate(value: string): number {
+  return new Date(`${value.replace(' ', 'T')}Z`).getTime();
+}
+
+/**
+ * Reads the messages added to a mailbox since its stored cursor in
+ * mailbox_sync_state, enqueues those with receipts and moves the cursor
+ * forward. Every path that ingests from Gmail goes through here, so they
+ * share one cursor. When Gmail no longer has history from the cursor, the
+ * messages received since the last successful sync are listed instead.
+ * Only mail in the account's watch settings is ingested.
+ * Messages seen twice are deduplicated by the queue's ingestion key.
+ */
+export class MailboxSync {
+  private queue: JobQueue;
+  private syncState: MailboxSyncStateStore;
+
+  constructor(queue?: JobQueue) {
+    this.queue = queue || JobQueue.getInstance();
+    this.syncState = MailboxSyncStateStore.getInstance();
+  }
+
+  /**
+   * @param notifiedHistoryId - historyId of the push notification that triggered the sync, if any
+   * @throws Error when Gmail cannot be read; the error is also recorded on the account
+   */
+  async sync(emailAddress: string, gmail: GmailService, notifiedHistoryId?: string): Promise<MailboxSyncResult> {
+    const account = MailboxCredentialStore.normalizeAccount(emailAddress);
+    try {
+      return await this.syncAccount(account, gmail, notifiedHistoryId);
+    } catch (error) {
+      this.syncState.recordError(account, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  private async syncAccount(account: string, gmail: GmailService, notifiedHistoryId?: string): Promise<MailboxSyncResult> {
+    const state = this.syncState.get(account);
+    const settings = MailboxWatchSettingsStore.getInstance().get(account);
+    const result: MailboxSyncResult = { account, status: 'processed', historyId: notifiedHistoryId || '', messages: 0, jobs: [] };
+
+    // The cursor is normally set when the watch is created
+    const cursor = state?.historyId;
+    if (!cursor) {
+      const historyId = notifiedHistoryId || (await gmail.getProfile()).historyId;
+      this.syncState.recordSync(account, historyId);
+      return { ...result, status: 'cursor_initialized', historyId };
+    }
+
+    if (notifiedHistoryId && compareHistoryIds(notifiedHistoryId, cursor) <= 0) {
+      return { ...result, status: 'already_processed', historyId: cursor };
+    }
+
+    // STEP 1: List the messages added since the cursor
+    let messageIds: string[];
+    let historyId: string;
+    let fullSync = false;
+    try {
+      ({ messageIds, historyId } = await this.listAddedMessages(gmail, cursor, settings));
+    } catch (error) {
+      if (!isExpiredCursor(error)) throw error;
+
+      console.warn(`History of ${account} from ${cursor} has expired, listing messages since the last sync`);
+      const since = state.lastSyncedAt || state.updatedAt;
+      ({ messageIds, historyId } = await this.listRecentMessages(gmail, parseSqliteDate(since) - FULL_SYNC_OVERLAP_MS, settings));
+      fullSync = true;
+    }
+
+    // STEP 2: Fetch the messages that have receipt attachments
+    const emails: EmailData[] = [];
+    for (const messageId of messageIds) {
+      const message = await gmail.getMessage(messageId);
+      // Deleted again before we got to it (404); other errors fail the sync before the cursor moves
+      if (!message || !GmailService.hasDocumentAttachment(message)) continue;
+      if (!isInWatchScope(settings, message.labelIds || [])) continue;
+      // The full sync listing already applied the search filter
+      if (settings.query && !fullSync && !(await this.matchesQuery(gmail, message, settings.query))) continue;
+
+      const email = await gmail.getEmailData(message);
+      if (email.attachments.length > 0) {
+        emails.push(email);
+      }
+    }
+
+    // STEP 3: Enqueue them for the receipt processor
+    if (emails.length > 0) {
+      result.jobs = await this.queue.enqueueEmailBatch(emails, { account });
+      JobWorker.getInstance().start();
+    }
+
+    // STEP 4: Only advance the cursor once everything up to it is enqueued
+    const latest = notifiedHistoryId && compareHistoryIds(notifiedHistoryId, historyId) > 0 ? notifiedHistoryId : historyId;
+    this.syncState.recordSync(account, latest, fullSync);
+
+    console.log(`Gmail sync of ${account}${fullSync ? ' (full)' : ''}: ${messageIds.length} new messages, ${emails.length} with receipts, history ${cursor} → ${latest}`);
+    return { ...result, status: fullSync ? 'full_sync' : 'processed', historyId: latest, messages: messageIds.length };
+  }
+
+  /**
+   * Messages added to the watched scope since the cursor. With chosen
+   * labels, a message also enters the scope when one of them is added to it
+   * later, e.g. by hand.
+   */
+  private async listAddedMessages(
+    gmail: GmailService,
+    cursor: string,
+    settings: MailboxWatchSettings
+  ): Promise<{ messageIds: string[]; historyId: string }> {
+    const watchedLabels = getWatchedLabelIds(settings);
+    const { history, historyId } = await gmail.listHistory(cursor, {
+      historyTypes: settings.scope === 'labels' ? ['messageAdded', 'labelAdded'] : ['messageAdded'],
+      // Gmail filters history by one label at most
+      labelId: watchedLabels.length === 1 ? watchedLabels[0] : undefined
+    });
+
+    const messageIds = new Set<string>();
+    for (const record of history) {
+      for (const added of record.messagesAdded || []) {
+        if (added.message?.id && isInWatchScope(settings, added.message.labelIds || [])) {
+          messageIds.add(added.message.id);
+        }
+      }
+      for (const labeled of record.labelsAdded || []) {
+        if (labeled.message?.id && (labeled.labelIds || []).some((label: string) => watchedLabels.includes(label))) {
+          messageIds.add(labeled.message.id);
+        }
+      }
+    }
+    return { messageIds: Array.from(messageIds), historyId };
+  }
+
+  /**
+   * Whether a message matches a Gmail search, by searching for its
+   * Message-ID header together with the search
+   */
+  private async matchesQuery(gmail: GmailService, message: any, query: string): Promise<boolean> {
+    const headers: Array<{ name: string; value: string }> = message.payload?.headers || [];
+    const rfc822Id = headers.find(header => header.name.toLowerCase() === 'message-id')?.value?.replace(/^<|>$/g, '');
+    if (!rfc822Id) {
+      return false;
+    }
+
+    const ids = await gmail.listMessageIds({ query: `rfc822msgid:${rfc822Id} (${query})`, maxResults: 10 });
+    return ids.includes(message.id);
+  }
+
+  /**
+   * Messages received since a time, and the historyId to continue from.
+   * The historyId is read first, so messages arriving during the listing
+   * are picked up again by the next sync rather than missed.
+   */
+  private async listRecentMessages(
+    gmail: GmailService,
+    since: number,
+    settings: MailboxWatchSettings
+  ): Promise<{ messageIds: string[]; historyId: string }> {
+    const { historyId } = await gmail.getProfile();
+    const maxResults = parseInt(process.env.GMAIL_FULL_SYNC_MAX_MESSAGES || '', 10) || DEFAULT_FULL_SYNC_MAX_MESSAGES;
+    const query = [`after:${Math.floor(since / 1000)}`, settings.query ? `(${settings.query})` : ''].join(' ').trim();
+
+    // Listing by several labels matches messages with all of them, so each label is listed on its own
+    const watchedLabels = getWatchedLabelIds(settings);
+    const messageIds = new Set<string>();
+    for (const labelIds of watchedLabels.length > 0 ? watchedLabels.map(label => [label]) : [undefined]) {
+      const ids = await gmail.listMessageIds({ query, labelIds, maxResults: maxResults - messageIds.size });
+      ids.forEach(id => messageIds.add(id));
+      if (messageIds.size >= maxResults) break;
+    }
+    return { messageIds: Array.from(messageIds), historyId };
+  }
+}
@@ -0,0 +1,99 @@
+import { DatabaseManager } from './db';
+import { MailboxCredentialStore } from './mailbox-credentials';
+
+/**
+ * Which mail of an account is watched and ingested:
+ *   inbox   messages arriving in the inbox (default)
+ *   labels  messages given one of the chosen labels, e.g. by a Gmail filter
+ *   all     all mail, except spam, trash and drafts
+ */
+export type WatchScope = 'inbox' | 'labels' | 'all';
+
+export const WATCH_SCOPES: WatchScope[] = ['inbox', 'labels', 'all'];
+
+// Never ingested in the 'all' scope
+const EXCLUDED_LABELS = ['SPAM', 'TRASH', 'DRAFT'];
+
+export interface MailboxWatchSettings {
+  account: string;
+  scope: WatchScope;
+  // Gmail label ids, for the 'labels' scope
+  labelIds: string[];
+  // Gmail search (e.g. "from:amazon.com") messages must also match; null for none
+  query: string | null;
+  updatedAt: string | null;
+}
+
+/**
+ * Label ids to watch and to read history for; empty for all mail
+ */
+export function getWatchedLabelIds(settings: MailboxWatchSettings): string[] {
+  if (settings.scope === 'inbox') return ['INBOX'];
+  if (settings.scope === 'labels') return settings.labelIds;
+  return [];
+}
+
+/**
+ * Whether a message with these labels is in the watched scope
+ */
+export function isInWatchScope(settings: MailboxWatchSettings, labelIds: string[]): boolean {
+  if (settings.scope === 'all') {
+    return !labelIds.some(label => EXCLUDED_LABELS.includes(label));
+  }
+  const watched = getWatchedLabelIds(settings);
+  return labelIds.some(label => watched.includes(label));
+}
+
+/**
+ * Per-account choice of the mail that is watched and ingested, in the
+ * mailbox_watch_settings table. Accounts without a row watch the inbox.
+ */
+export class MailboxWatchSettingsStore {
+  private static instance: MailboxWatchSettingsStore;
+  private db: DatabaseManager;
+
+  private constructor() {
+    this.db = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): MailboxWatchSettingsStore {
+    if (!MailboxWatchSettingsStore.instance) {
+      MailboxWatchSettingsStore.instance = new MailboxWatchSettingsStore();
+    }
+    return MailboxWatchSettingsStore.instance;
+  }
+
+  get(account: string): MailboxWatchSettings {
+    const normalized = MailboxCredentialStore.normalizeAccount(account);
+    const row = this.db.getDb().prepare(`
+      SELECT * FROM mailbox_watch_settings WHERE account = ?
+    `).get(normalized) as any;
+
+    if (!row) {
+      return { account: normalized, scope: 'inbox', labelIds: [], query: null, updatedAt: null };
+    }
+
+    return {
+      account: row.account,
+      scope: row.scope,
+      labelIds: JSON.parse(row.label_ids || '[]'),
+      query: row.query || null,
+      updatedAt: row.updated_at
+    };
+  }
+
+  save(account: string, scope: WatchScope, labelIds: string[], query: string | null): MailboxWatchSettings {
+    const normalized = MailboxCredentialStore.normalizeAccount(account);
+    this.db.getDb().prepare(`
+      INSERT INTO mailbox_watch_settings (account, scope, label_ids, query, created_at, updated_at)
+      VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+      ON CONFLICT(account) DO UPDATE SET
+        scope = excluded.scope,
+        label_ids = excluded.label_ids,
+        query = excluded.query,
+        updated_at = excluded.updated_at
+    `).run(normalized, scope, JSON.stringify(scope === 'labels' ? labelIds : []), query?.trim() || null);
+
+    return this.get(normalized);
+  }
+}
@@ -0,0 +1,237 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { ProcessingResult } from '../types/receipt-types';
+
+const execFileAsync = promisify(execFile);
+
+// Local OCR tooling: poppler's pdftoppm renders pages, tesseract reads them
+const PDFTOPPM_PATH = process.env.OCR_PDFTOPPM_PATH || 'pdftoppm';
+const TESSERACT_PATH = process.env.OCR_TESSERACT_PATH || 'tesseract';
+// libheif's converter, for HEIC/HEIF phone photos that tesseract cannot read
+const HEIF_CONVERT_PATH = process.env.OCR_HEIF_CONVERT_PATH || 'heif-convert';
+// qpdf removes the password of a protected PDF before it is rendered
+const QPDF_PATH = process.env.OCR_QPDF_PATH || 'qpdf';
+const OCR_LANGUAGE = process.env.OCR_LANGUAGE || 'eng';
+const OCR_DPI = parseInt(process.env.OCR_DPI || '300', 10);
+// OCR is slow, so only the first pages of a scanned PDF are read
+const OCR_MAX_PAGES = parseInt(process.env.OCR_MAX_PAGES || '20', 10);
+
+const MAX_OUTPUT_BYTES = 32 * 1024 * 1024;
+
+export interface OcrPageResult {
+  text: string;
+  // Mean tesseract word confidence (0-100)
+  confidence: number;
+}
+
+export class OcrProcessor {
+  /**
+   * Whether the OCR fallback is enabled (OCR_ENABLED, on by default)
+   */
+  static isEnabled(): boolean {
+    return process.env.OCR_ENABLED !== 'false';
+  }
+
+  /**
+   * Render every page of a PDF to an image and run OCR on it
+   * @param pdfBuffer - The PDF file as a Buffer
+   * @param password - User password for a protected PDF. It is never put on
+   *                   a command line, where other local users could read it.
+   * @returns Promise<ProcessingResult> with the text, per-page text and mean confidence
+   */
+  static async recognizePdf(pdfBuffer: Buffer, password?: string): Promise<ProcessingResult> {
+    const startTime = Date.now();
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'receipt-ocr-'));
+
+    try {
+      let pdfPath = path.join(workDir, 'document.pdf');
+      fs.writeFileSync(pdfPath, pdfBuffer, { mode: 0o600 });
+
+      if (password !== undefined) {
+        pdfPath = await OcrProcessor.decryptPdf(workDir, pdfPath, password);
+      }
+
+      const renderArgs = ['-r', String(OCR_DPI), '-png'];
+      if (OCR_MAX_PAGES > 0) {
+        renderArgs.push('-l', String(OCR_MAX_PAGES));
+      }
+      await execFileAsync(PDFTOPPM_PATH, [...renderArgs, pdfPath, path.join(workDir, 'page')]);
+
+      // pdftoppm zero-pads page numbers to the same width, so a plain sort keeps page order
+      const images = fs.readdirSync(workDir)
+        .filter(file => file.startsWith('page') && file.endsWith('.png'))
+        .sort();
+
+      const pages: OcrPageResult[] = [];
+      for (const image of images) {
+        pages.push(await OcrProcessor.recognizeImageFile(path.join(workDir, image)));
+      }
+
+      return OcrProcessor.buildResult(pages, startTime);
+    } catch (error) {
+      console.error('Error running OCR on PDF:', error);
+      return {
+        success: false,
+        stage: 'ocr',
+        message: 'Failed to run OCR on PDF',
+        error: error instanceof Error ? error.message : String(error),
+        processingTime: Date.now() - startTime
+      };
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Write a decrypted copy of a protected PDF into the (owner-only) work
+   * directory. qpdf reads the password from a file there.
+   * @returns Path of the decrypted copy
+   */
+  private static async decryptPdf(workDir: string, pdfPath: string, password: string): Promise<string> {
+    const passwordPath = path.join(workDir, 'password');
+    const decryptedPath = path.join(workDir, 'decrypted.pdf');
+    fs.writeFileSync(passwordPath, password, { mode: 0o600 });
+
+    try {
+      await execFileAsync(QPDF_PATH, [`--password-file=${passwordPath}`, '--decrypt', '--warning-exit-0', pdfPath, decryptedPath]);
+    } finally {
+      fs.rmSync(passwordPath, { force: true });
+    }
+    return decryptedPath;
+  }
+
+  /**
+   * Run OCR on a receipt photo
+   * @param imageBuffer - The image file as a Buffer
+   * @param mimeType - image/jpeg, image/png, image/heic or image/heif
+   * @returns Promise<ProcessingResult> with the text and confidence, as for a one-page PDF
+   */
+  static async recognizeImage(imageBuffer: Buffer, mimeType: string): Promise<ProcessingResult> {
+    const startTime = Date.now();
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'receipt-ocr-'));
+
+    try {
+      const isHeif = mimeType === 'image/heic' || mimeType === 'image/heif';
+      const extension = isHeif ? 'heic' : mimeType === 'image/png' ? 'png' : 'jpg';
+      let imagePath = path.join(workDir, `image.${extension}`);
+      fs.writeFileSync(imagePath, imageBuffer);
+
+      if (isHeif) {
+        const convertedPath = path.join(workDir, 'image.png');
+        await execFileAsync(HEIF_CONVERT_PATH, [imagePath, convertedPath]);
+        imagePath = convertedPath;
+      }
+
+      const page = await OcrProcessor.recognizeImageFile(imagePath);
+      return OcrProcessor.buildResult([page], startTime);
+    } catch (error) {
+      console.error('Error running OCR on image:', error);
+      return {
+        success: false,
+        stage: 'ocr',
+        message: 'Failed to run OCR on image',
+        error: error instanceof Error ? error.message : String(error),
+        processingTime: Date.now() - startTime
+      };
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Run OCR on a single image file
+   * @param imagePath - Path to a PNG, JPEG or TIFF image
+   * @returns Promise<OcrPageResult> - The recognised text and mean word confidence
+   */
+  static async recognizeImageFile(imagePath: string): Promise<OcrPageResult> {
+    const { stdout } = await execFileAsync(
+      TESSERACT_PATH,
+      [imagePath, 'stdout', '-l', OCR_LANGUAGE, 'tsv'],
+      { maxBuffer: MAX_OUTPUT_BYTES }
+    );
+
+    return OcrProcessor.parseTsv(stdout);
+  }
+
+  /**
+   * Rebuild text lines from tesseract's TSV output and average the
+   * confidence of the recognised words
+   * @param tsv - Output of `tesseract <image> stdout tsv`
+   * @returns OcrPageResult
+   */
+  static parseTsv(tsv: string): OcrPageResult {
+    const lines: string[] = [];
+    const confidences: number[] = [];
+    let currentLine = '';
+    let currentWords: string[] = [];
+
+    for (const row of tsv.split('\n').slice(1)) {
+      const columns = row.split('\t');
+      // level, page, block, paragraph, line, word, left, top, width, height, conf, text
+      if (columns.length < 12 || columns[0] !== '5') continue;
+
+      const word = columns[11].trim();
+      const confidence = parseFloat(columns[10]);
+      if (!word) continue;
+
+      const lineKey = columns.slice(1, 5).join('/');
+      if (lineKey !== currentLine && currentWords.length > 0) {
+        lines.push(currentWords.join(' '));
+        currentWords = [];
+      }
+      currentLine = lineKey;
+      currentWords.push(word);
+
+      if (!isNaN(confidence) && confidence >= 0) {
+        confidences.push(confidence);
+      }
+    }
+
+    if (currentWords.length > 0) {
+      lines.push(currentWords.join(' '));
+    }
+
+    return {
+      text: lines.join('\n'),
+      confidence: confidences.length > 0
+        ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+        : 0
+    };
+  }
+
+  /**
+   * Combine per-page OCR results into a pipeline result
+   */
+  private static buildResult(pages: OcrPageResult[], startTime: number): ProcessingResult {
+    const text = pages.map(page => page.text).join('\n\n');
+
+    if (!text.trim()) {
+      return {
+        success: false,
+        stage: 'ocr',
+        message: 'OCR found no text in the document',
+        processingTime: Date.now() - startTime
+      };
+    }
+
+    // Pages without any recognised text do not count towards the confidence
+    const textPages = pages.filter(page => page.text.trim());
+    const confidence = textPages.reduce((sum, page) => sum + page.confidence, 0) / textPages.length;
+
+    return {
+      success: true,
+      stage: 'ocr',
+      message: `OCR recognised text on ${textPages.length} of ${pages.length} page(s)`,
+      data: {
+        text,
+        pages: pages.map(page => page.text),
+        pageCount: pages.length,
+        confidence: Math.round(confidence)
+      },
+      processingTime: Date.now() - startTime
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import axios from 'axios';
+import { BaseLLMProcessor, DEFAULT_TEMPERATURE, LLMCompletion, LLMCompletionRequest } from './llm-provider';
+
+export const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+
+/**
+ * LLM provider for a locally running Ollama server (native /api/chat endpoint)
+ */
+export class OllamaLLMProcessor extends BaseLLMProcessor {
+  readonly name: string = 'ollama';
+  protected baseUrl: string;
+
+  constructor(model: string, baseUrl: string = OLLAMA_DEFAULT_BASE_URL) {
+    super(model);
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  protected async complete({ messages, maxTokens, temperature = DEFAULT_TEMPERATURE }: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await axios.post(
+      `${this.baseUrl}/api/chat`,
+      {
+        model: this.model,
+        messages,
+        stream: false,
+        format: 'json',
+        options: {
+          temperature,
+          num_predict: maxTokens
+        }
+      },
+      {
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+
+    // Ollama reports token counts as prompt_eval_count and eval_count
+    const { prompt_eval_count, eval_count } = response.data;
+
+    return {
+      content: response.data.message.content,
+      usage: eval_count !== undefined
+        ? { promptTokens: prompt_eval_count || 0, completionTokens: eval_count }
+        : undefined
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import axios from 'axios';
+import { BaseLLMProcessor, DEFAULT_TEMPERATURE, LLMCompletion, LLMCompletionRequest } from './llm-provider';
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * LLM provider for any endpoint that speaks the OpenAI chat completions API
+ */
+export class OpenAICompatibleLLMProcessor extends BaseLLMProcessor {
+  readonly name: string = 'openai';
+  protected apiKey?: string;
+  protected baseUrl: string;
+
+  constructor({ baseUrl, model, apiKey }: OpenAICompatibleOptions) {
+    super(model);
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+  }
+
+  protected async complete({ messages, maxTokens, temperature = DEFAULT_TEMPERATURE }: LLMCompletionRequest): Promise<LLMCompletion> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await axios.post(
+      `${this.baseUrl}/chat/completions`,
+      {
+        model: this.model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        response_format: { type: "json_object" }
+      },
+      { headers }
+    );
+
+    const usage = response.data.usage;
+
+    return {
+      content: response.data.choices[0].message.content,
+      usage: usage
+        ? { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 }
+        : undefined
+    };
+  }
+}
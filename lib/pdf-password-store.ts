@@ -0,0 +1,111 @@
+import { DatabaseManager } from './db';
+import { SecretBox } from './secret-box';
+
+export interface PdfPasswordEntry {
+  sender: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Per-sender passwords for protected PDFs (bank and utility statements),
+ * encrypted at rest in the pdf_passwords table. A sender is either a full
+ * address ("billing@bank.com") or a domain ("bank.com"), which also covers
+ * its subdomains.
+ */
+export class PdfPasswordStore {
+  private static instance: PdfPasswordStore;
+  private db: DatabaseManager;
+
+  private constructor() {
+    this.db = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): PdfPasswordStore {
+    if (!PdfPasswordStore.instance) {
+      PdfPasswordStore.instance = new PdfPasswordStore();
+    }
+    return PdfPasswordStore.instance;
+  }
+
+  /**
+   * Normalise a sender to the stored form: a lowercased address or domain.
+   * Accepts "Name <billing@bank.com>", "billing@bank.com", "@bank.com" and "bank.com".
+   */
+  static normalizeSender(sender: string): string {
+    const address = (sender.match(/<([^>]+)>/) || [])[1] || sender;
+    return address.trim().toLowerCase().replace(/^@/, '');
+  }
+
+  /**
+   * Senders that have a password, without the passwords themselves
+   */
+  list(): PdfPasswordEntry[] {
+    return this.db.getDb().prepare(`
+      SELECT sender, created_at as createdAt, updated_at as updatedAt
+      FROM pdf_passwords
+      ORDER BY sender
+    `).all() as PdfPasswordEntry[];
+  }
+
+  /**
+   * Add or replace the password for a sender
+   */
+  set(sender: string, password: string): void {
+    const normalized = PdfPasswordStore.normalizeSender(sender);
+    if (!normalized) {
+      throw new Error('Sender address or domain required');
+    }
+
+    this.db.getDb().prepare(`
+      INSERT INTO pdf_passwords (sender, encrypted_password, created_at, updated_at)
+      VALUES (?, ?, datetime('now'), datetime('now'))
+      ON CONFLICT(sender) DO UPDATE SET
+        encrypted_password = excluded.encrypted_password,
+        updated_at = excluded.updated_at
+    `).run(normalized, SecretBox.encrypt(password));
+  }
+
+  /**
+   * Remove the password for a sender
+   * @returns boolean - True when a password was removed
+   */
+  remove(sender: string): boolean {
+    const result = this.db.getDb().prepare(
+      'DELETE FROM pdf_passwords WHERE sender = ?'
+    ).run(PdfPasswordStore.normalizeSender(sender));
+    return result.changes > 0;
+  }
+
+  /**
+   * Passwords to try for a PDF from this sender: the address's own password
+   * first, then its domain's from the most specific up
+   */
+  getPasswords(sender: string): string[] {
+    const address = PdfPasswordStore.normalizeSender(sender);
+    if (!address) return [];
+
+    const candidates = address.includes('@') ? [address] : [];
+    const domain = address.includes('@') ? address.split('@')[1] : address;
+    const labels = domain.split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      candidates.push(labels.slice(i).join('.'));
+    }
+
+    try {
+      const rows = this.db.getDb().prepare(`
+        SELECT sender, encrypted_password
+        FROM pdf_passwords
+        WHERE sender IN (${candidates.map(() => '?').join(', ')})
+      `).all(...candidates) as Array<{ sender: string; encrypted_password: string }>;
+
+      return candidates
+        .map(candidate => rows.find(row => row.sender === candidate))
+        .filter((row): row is { sender: string; encrypted_password: string } => !!row)
+        .map(row => SecretBox.decrypt(row.encrypted_password));
+    } catch (error) {
+      console.error(`Error reading PDF passwords for ${address}:`, error);
+      return [];
+    }
+  }
+}
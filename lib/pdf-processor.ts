@@ -1,26 +1,79 @@
 import pdfParse from 'pdf-parse';
-import { ProcessingResult } from '../types/receipt-types';
+import { ProcessingResult, TextLayoutMode } from '../types/receipt-types';
+
+// Upper bound on pages parsed from a single PDF (0 parses every page)
+const MAX_PDF_PAGES = parseInt(process.env.PDF_MAX_PAGES || '200', 10);
+
+// Widest line produced by the layout grid, in characters
+const MAX_LAYOUT_COLUMNS = 240;
+
+/**
+ * A text run from pdf.js with its position in PDF units (origin bottom-left)
+ */
+export interface PositionedTextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 export class PdfProcessor {
   /**
-   * Extract text from a PDF buffer
+   * Default text rendering for PDF text layers (PDF_TEXT_LAYOUT: plain or layout)
+   */
+  static getLayoutMode(): TextLayoutMode {
+    return process.env.PDF_TEXT_LAYOUT === 'layout' ? 'layout' : 'plain';
+  }
+  
+  /**
+   * Extract text from a PDF buffer. Password-protected PDFs are retried
+   * with each of the given passwords in turn.
    * @param pdfBuffer - The PDF file as a Buffer
-   * @returns Promise<ProcessingResult> with the extracted text
+   * @param passwords - Candidate passwords, e.g. the sender's from PdfPasswordStore
+   * @param layout - 'layout' keeps column positions, see renderPageLayout
+   * @returns Promise<ProcessingResult> with the extracted text and per-page text;
+   *          stage 'pdf_encrypted' when no password opens the PDF
    */
-  static async extractText(pdfBuffer: Buffer): Promise<ProcessingResult> {
+  static async extractText(
+    pdfBuffer: Buffer,
+    passwords: string[] = [],
+    layout: TextLayoutMode = PdfProcessor.getLayoutMode()
+  ): Promise<ProcessingResult> {
     const startTime = Date.now();
     
     try {
-      // Basic options for PDF parsing
-      const options = {
-        // Limit pages to parse in case of very large PDFs
-        max: 10,
-        // Skip images during parsing for faster processing
-        pagerender: (pageData: any) => Promise.resolve(),
-      };
+      let parsed: { pdfData: any; pages: string[] } | undefined;
+      let passwordIndex: number | undefined;
+      try {
+        parsed = await PdfProcessor.parse(pdfBuffer, layout);
+      } catch (error) {
+        if (!PdfProcessor.isPasswordError(error)) throw error;
+        
+        for (let i = 0; i < passwords.length && !parsed; i++) {
+          try {
+            parsed = await PdfProcessor.parse(pdfBuffer, layout, passwords[i]);
+            passwordIndex = i;
+          } catch (retryError) {
+            if (!PdfProcessor.isPasswordError(retryError)) throw retryError;
+          }
+        }
+        
+        if (!parsed) {
+          return {
+            success: false,
+            stage: 'pdf_encrypted',
+            message: passwords.length > 0
+              ? `PDF is password protected and none of the ${passwords.length} stored password(s) opened it`
+              : 'PDF is password protected and no password is stored for the sender',
+            error: error instanceof Error ? error.message : String(error),
+            data: { encrypted: true, passwordsTried: passwords.length },
+            processingTime: Date.now() - startTime
+          };
+        }
+      }
       
-      // Parse the PDF
-      const pdfData = await pdfParse(pdfBuffer, options);
+      const { pdfData, pages } = parsed;
       
       // If no text was extracted, return an error
       if (!pdfData.text || pdfData.text.trim() === '') {
@@ -28,6 +81,7 @@ export class PdfProcessor {
           success: false,
           stage: 'pdf_extraction',
           message: 'No text found in PDF',
+          data: { encrypted: passwordIndex !== undefined, passwordIndex },
           processingTime: Date.now() - startTime
         };
       }
@@ -38,8 +92,13 @@ export class PdfProcessor {
         message: 'Text successfully extracted from PDF',
         data: {
           text: pdfData.text,
+          pages: Array.from(pages, page => page || ''),
           pageCount: pdfData.numpages,
-          info: pdfData.info
+          info: pdfData.info,
+          layout,
+          encrypted: passwordIndex !== undefined,
+          // Which of the passwords opened the PDF, so OCR can reuse it
+          passwordIndex
         },
         processingTime: Date.now() - startTime
       };
@@ -55,6 +114,166 @@ export class PdfProcessor {
     }
   }
   
+  /**
+   * Parse a PDF with pdf-parse, collecting the text of each page
+   */
+  private static async parse(
+    pdfBuffer: Buffer,
+    layout: TextLayoutMode,
+    password?: string
+  ): Promise<{ pdfData: any; pages: string[] }> {
+    const pages: string[] = [];
+    
+    // Basic options for PDF parsing
+    const options = {
+      // Limit pages to parse in case of very large PDFs
+      max: MAX_PDF_PAGES,
+      // Render only the text layer, keeping each page's text separately
+      pagerender: async (pageData: any) => {
+        const pageText = layout === 'layout'
+          ? await PdfProcessor.renderPageLayout(pageData)
+          : await PdfProcessor.renderPageText(pageData);
+        pages[pageData.pageIndex] = pageText;
+        return pageText;
+      },
+    };
+    
+    // pdf-parse hands its first argument to pdf.js getDocument, which also
+    // accepts a parameters object carrying the password
+    const source: any = password === undefined ? pdfBuffer : { data: new Uint8Array(pdfBuffer), password };
+    const pdfData = await pdfParse(source, options);
+    
+    return { pdfData, pages };
+  }
+  
+  /**
+   * Whether pdf.js failed because the PDF needs a (different) password
+   */
+  static isPasswordError(error: unknown): boolean {
+    if (!error) return false;
+    const { name, message } = error as { name?: string; message?: string };
+    return name === 'PasswordException' || /\bpassword\b/i.test(message || '');
+  }
+  
+  /**
+   * Build the text of a single page from its positioned text items,
+   * starting a new line whenever the vertical position changes
+   * @param pageData - The pdf.js page proxy passed to pagerender
+   * @returns Promise<string> - The page text
+   */
+  static async renderPageText(pageData: any): Promise<string> {
+    const textContent = await pageData.getTextContent({
+      normalizeWhitespace: false,
+      disableCombineTextItems: false
+    });
+    
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of textContent.items) {
+      const y = item.transform[5];
+      text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+      lastY = y;
+    }
+    
+    return text;
+  }
+  
+  /**
+   * Build the text of a single page as a character grid: items on the same
+   * baseline share a line and each item starts at the column matching its x
+   * position, so table columns stay aligned
+   * @param pageData - The pdf.js page proxy passed to pagerender
+   * @returns Promise<string> - The page text with line breaks and column padding
+   */
+  static async renderPageLayout(pageData: any): Promise<string> {
+    const textContent = await pageData.getTextContent({
+      normalizeWhitespace: false,
+      disableCombineTextItems: false
+    });
+    
+    const items: PositionedTextItem[] = textContent.items.map((item: any) => ({
+      str: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width || 0,
+      height: item.height || Math.abs(item.transform[3]) || 0
+    }));
+    
+    return PdfProcessor.layoutTextItems(items);
+  }
+  
+  /**
+   * Lay out positioned text items on a character grid
+   * @param items - Text items with PDF coordinates
+   * @returns string - One line per baseline, items padded to their column
+   */
+  static layoutTextItems(items: PositionedTextItem[]): string {
+    const textItems = items.filter(item => item.str && item.str.trim());
+    if (textItems.length === 0) return '';
+    
+    // Column width: the median width of a character across the page
+    const charWidths = textItems
+      .filter(item => item.width > 0)
+      .map(item => item.width / item.str.length)
+      .sort((a, b) => a - b);
+    const charWidth = charWidths.length > 0 ? charWidths[Math.floor(charWidths.length / 2)] : 5;
+    
+    // Items whose baselines are within half a line of each other share a row
+    const heights = textItems.map(item => item.height).filter(height => height > 0).sort((a, b) => a - b);
+    const rowTolerance = heights.length > 0 ? heights[Math.floor(heights.length / 2)] / 2 : 2;
+    
+    const rows: PositionedTextItem[][] = [];
+    [...textItems]
+      .sort((a, b) => b.y - a.y || a.x - b.x)
+      .forEach(item => {
+        const row = rows[rows.length - 1];
+        if (row && Math.abs(row[0].y - item.y) <= rowTolerance) {
+          row.push(item);
+        } else {
+          rows.push([item]);
+        }
+      });
+    
+    const left = Math.min(...textItems.map(item => item.x));
+    
+    return rows.map(row => {
+      let line = '';
+      row.sort((a, b) => a.x - b.x).forEach(item => {
+        const column = Math.min(Math.round((item.x - left) / charWidth), MAX_LAYOUT_COLUMNS);
+        if (column > line.length) {
+          line += ' '.repeat(column - line.length);
+        } else if (line.length > 0 && !/\s$/.test(line) && !/^\s/.test(item.str)) {
+          // Overlapping items still need a separating space
+          line += ' ';
+        }
+        line += item.str;
+      });
+      return line.replace(/\s+$/, '');
+    }).join('\n');
+  }
+  
+  /**
+   * Clean layout text from renderPageLayout, keeping line breaks and the
+   * spaces that align columns
+   * @param text - The raw layout text
+   * @returns string - Text with trailing spaces, control characters and extra blank lines removed
+   */
+  static cleanLayoutText(text: string): string {
+    if (!text) return '';
+    
+    return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/\t/g, '    ')
+      // Remove non-printable characters
+      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
+      .split('\n')
+      .map(line => line.replace(/\s+$/, ''))
+      .join('\n')
+      // At most one blank line between blocks
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/^\n+|\n+$/g, '');
+  }
+  
   /**
    * Clean and normalize extracted PDF text
    * @param text - The raw text extracted from PDF
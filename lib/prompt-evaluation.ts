@@ -0,0 +1,175 @@
+import fs from 'fs';
+import path from 'path';
+import { LLMProvider } from './llm-provider';
+import { amountsMatch } from './receipt-math';
+import { LineItem, LLMExtractionResult } from '../types/receipt-types';
+
+/**
+ * Expected values for one labelled receipt. Fields left out of the label
+ * file are not scored for that receipt.
+ */
+export interface ReceiptLabel {
+  merchantName?: string;
+  transactionDate?: string;
+  totalAmount?: number;
+  taxAmount?: number | null;
+  lineItems?: LineItem[];
+}
+
+export interface LabelledReceipt {
+  name: string;
+  text: string;
+  label: ReceiptLabel;
+}
+
+export type EvaluatedField = 'merchant' | 'date' | 'total' | 'tax' | 'lineItems';
+
+export const EVALUATED_FIELDS: EvaluatedField[] = ['merchant', 'date', 'total', 'tax', 'lineItems'];
+
+export interface FieldScore {
+  correct: number;
+  scored: number;
+  accuracy: number;
+}
+
+export interface PromptEvaluationResult {
+  promptVersion: string;
+  samples: number;
+  failures: number;
+  fields: Record<EvaluatedField, FieldScore>;
+  perSample: Array<{
+    name: string;
+    error?: string;
+    scores: Partial<Record<EvaluatedField, number>>;
+  }>;
+}
+
+/**
+ * Load a folder of labelled receipts: every `<name>.txt` holds the receipt
+ * text and a sibling `<name>.json` holds its ReceiptLabel
+ */
+export function loadLabelledReceipts(folder: string): LabelledReceipt[] {
+  return fs.readdirSync(folder)
+    .filter(file => file.endsWith('.txt'))
+    .sort()
+    .flatMap(file => {
+      const name = path.basename(file, '.txt');
+      const labelPath = path.join(folder, `${name}.json`);
+      if (!fs.existsSync(labelPath)) {
+        console.warn(`Skipping ${file}: no ${name}.json label`);
+        return [];
+      }
+      return [{
+        name,
+        text: fs.readFileSync(path.join(folder, file), 'utf-8'),
+        label: JSON.parse(fs.readFileSync(labelPath, 'utf-8')) as ReceiptLabel
+      }];
+    });
+}
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Fraction of expected line items matched by an extracted item with the same
+ * line amount (price × quantity), penalising extra extracted items
+ */
+export function scoreLineItems(expected: LineItem[], actual: LineItem[]): number {
+  if (expected.length === 0 && actual.length === 0) return 1;
+
+  const remaining = [...actual];
+  let matched = 0;
+  for (const item of expected) {
+    const expectedAmount = item.price * (item.quantity ?? 1);
+    const index = remaining.findIndex(candidate =>
+      amountsMatch(candidate.price * (candidate.quantity ?? 1), expectedAmount)
+    );
+    if (index >= 0) {
+      matched++;
+      remaining.splice(index, 1);
+    }
+  }
+
+  return matched / Math.max(expected.length, actual.length);
+}
+
+/**
+ * Score one extraction against its label; 1 is correct, 0 is wrong
+ */
+export function scoreExtraction(label: ReceiptLabel, result: LLMExtractionResult | null): Partial<Record<EvaluatedField, number>> {
+  const scores: Partial<Record<EvaluatedField, number>> = {};
+
+  if (label.merchantName !== undefined) {
+    const expected = normalizeName(label.merchantName);
+    const actual = normalizeName(result?.merchantName || '');
+    scores.merchant = actual.length > 0 && (actual.includes(expected) || expected.includes(actual)) ? 1 : 0;
+  }
+  if (label.transactionDate !== undefined) {
+    scores.date = result?.transactionDate === label.transactionDate ? 1 : 0;
+  }
+  if (label.totalAmount !== undefined) {
+    scores.total = result?.totalAmount !== undefined && amountsMatch(result.totalAmount, label.totalAmount) ? 1 : 0;
+  }
+  if (label.taxAmount !== undefined) {
+    const expectedTax = label.taxAmount ?? 0;
+    scores.tax = result && amountsMatch(result.taxAmount ?? 0, expectedTax) ? 1 : 0;
+  }
+  if (label.lineItems !== undefined) {
+    scores.lineItems = result ? scoreLineItems(label.lineItems, result.lineItems || []) : 0;
+  }
+
+  return scores;
+}
+
+/**
+ * Run one extraction prompt version over every labelled receipt
+ */
+export async function evaluatePromptVersion(
+  provider: LLMProvider,
+  version: string,
+  receipts: LabelledReceipt[]
+): Promise<PromptEvaluationResult> {
+  provider.usePromptVersions({ extraction: version });
+
+  const fields = EVALUATED_FIELDS.reduce((acc, field) => {
+    acc[field] = { correct: 0, scored: 0, accuracy: 0 };
+    return acc;
+  }, {} as Record<EvaluatedField, FieldScore>);
+
+  const perSample: PromptEvaluationResult['perSample'] = [];
+  let failures = 0;
+
+  for (const receipt of receipts) {
+    let result: LLMExtractionResult | null = null;
+    let error: string | undefined;
+
+    try {
+      result = await provider.extractReceiptData(receipt.text);
+    } catch (err) {
+      failures++;
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const scores = scoreExtraction(receipt.label, result);
+    for (const field of EVALUATED_FIELDS) {
+      const score = scores[field];
+      if (score !== undefined) {
+        fields[field].correct += score;
+        fields[field].scored++;
+      }
+    }
+    perSample.push({ name: receipt.name, error, scores });
+  }
+
+  for (const field of EVALUATED_FIELDS) {
+    const { correct, scored } = fields[field];
+    fields[field].accuracy = scored > 0 ? (correct / scored) * 100 : 0;
+  }
+
+  return {
+    promptVersion: provider.getPromptId('extraction'),
+    samples: receipts.length,
+    failures,
+    fields,
+    perSample
+  };
+}
@@ -0,0 +1,155 @@
+import type { ChatMessage } from './llm-provider';
+
+export type PromptName = 'classification' | 'extraction' | 'chunk_extraction';
+
+export interface PromptTemplate {
+  name: PromptName;
+  version: string;
+  description: string;
+  // User message with {{placeholder}} variables
+  template: string;
+}
+
+export type PromptVersions = Record<PromptName, string>;
+
+const EXTRACTION_JSON_FORMAT = `{
+  "merchantName": string,
+  "transactionDate": "YYYY-MM-DD",
+  "totalAmount": number,
+  "taxAmount": number | null,
+  "subtotal": number | null,
+  "lineItems": [{"name": string, "price": number, "quantity": number}],
+  "paymentMethod": string | null,
+  "confidence": number (0-100),
+  "extractionIssues": ["issue1", "issue2"]
+}`;
+
+/**
+ * All prompt templates, by name and version. Never edit a published version
+ * in place: add a new version so stored results and cache entries stay
+ * attributable to the prompt that produced them.
+ */
+export const PROMPT_TEMPLATES: Record<PromptName, Record<string, PromptTemplate>> = {
+  classification: {
+    v1: {
+      name: 'classification',
+      version: 'v1',
+      description: 'Original receipt/invoice/statement classifier',
+      template: `Analyze this document and determine if it's a retail receipt.
+
+Document text: "{{documentText}}"
+
+Respond with JSON only:
+{
+  "isReceipt": boolean,
+  "confidence": number (0-100),
+  "documentType": "receipt" | "invoice" | "statement" | "other",
+  "reasoning": "brief explanation",
+  "keyIndicators": ["indicator1", "indicator2"]
+}`
+    }
+  },
+  extraction: {
+    v1: {
+      name: 'extraction',
+      version: 'v1',
+      description: 'Original single-pass receipt extraction',
+      template: `Extract structured data from this receipt text.
+
+Receipt text: "{{documentText}}"
+
+Return JSON only:
+${EXTRACTION_JSON_FORMAT}`
+    },
+    v2: {
+      name: 'extraction',
+      version: 'v2',
+      description: 'Adds explicit rules for unit prices, quantities and summary rows',
+      template: `You are extracting accounting data from a receipt. Read the whole text before answering.
+
+Rules:
+- merchantName is the business that was paid, not the payment processor or the customer.
+- transactionDate is the purchase date, not a print, due or delivery date.
+- Each line item's price is the unit price; quantity defaults to 1.
+- Do not list subtotal, tax, tip, discount or total rows as line items.
+- Use null for taxAmount, subtotal or paymentMethod only when the receipt does not show them.
+- Add a short note to extractionIssues for anything unreadable or ambiguous.
+
+Receipt text: "{{documentText}}"
+
+Return JSON only:
+${EXTRACTION_JSON_FORMAT}`
+    }
+  },
+  chunk_extraction: {
+    v1: {
+      name: 'chunk_extraction',
+      version: 'v1',
+      description: 'Per-chunk extraction for map-reduce processing of long documents',
+      template: `This is part {{chunkNumber}} of {{chunkCount}} ({{pageLabel}}) of a long receipt or invoice.
+Extract only the data that appears in this part. Use null for any field that is not shown here.
+List every line item in this part; do not include subtotal, tax or total rows as line items.
+
+Receipt text: "{{documentText}}"
+
+Return JSON only:
+{
+  "merchantName": string | null,
+  "transactionDate": "YYYY-MM-DD" | null,
+  "totalAmount": number | null,
+  "taxAmount": number | null,
+  "subtotal": number | null,
+  "lineItems": [{"name": string, "price": number, "quantity": number}],
+  "paymentMethod": string | null,
+  "confidence": number (0-100),
+  "extractionIssues": ["issue1", "issue2"]
+}`
+    }
+  }
+};
+
+/**
+ * Identifier stored with results, e.g. "extraction@v2"
+ */
+export function promptId(name: PromptName, version: string): string {
+  return `${name}@${version}`;
+}
+
+/**
+ * Look up a template, failing loudly on unknown versions
+ */
+export function getPromptTemplate(name: PromptName, version: string): PromptTemplate {
+  const template = PROMPT_TEMPLATES[name][version];
+  if (!template) {
+    const available = Object.keys(PROMPT_TEMPLATES[name]).join(', ');
+    throw new Error(`Unknown ${name} prompt version "${version}" (available: ${available})`);
+  }
+  return template;
+}
+
+/**
+ * Active prompt versions. Defaults to v1 for every prompt and can be
+ * overridden with PROMPT_VERSION_CLASSIFICATION, PROMPT_VERSION_EXTRACTION
+ * and PROMPT_VERSION_CHUNK_EXTRACTION.
+ */
+export function getActivePromptVersions(env: NodeJS.ProcessEnv = process.env): PromptVersions {
+  return {
+    classification: env.PROMPT_VERSION_CLASSIFICATION || 'v1',
+    extraction: env.PROMPT_VERSION_EXTRACTION || 'v1',
+    chunk_extraction: env.PROMPT_VERSION_CHUNK_EXTRACTION || 'v1'
+  };
+}
+
+/**
+ * Fill a template's {{placeholders}} and build the chat messages
+ */
+export function renderPrompt(template: PromptTemplate, variables: Record<string, string | number>): ChatMessage[] {
+  const content = template.template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => {
+    if (!(key in variables)) {
+      throw new Error(`Missing variable "${key}" for prompt ${promptId(template.name, template.version)}`);
+    }
+    return String(variables[key]);
+  });
+
+  return [{ role: 'user', content }];
+}
@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+const GOOGLE_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_ISSUERS = ['https://accounts.google.com', 'accounts.google.com'];
+// Allowed difference between our clock and Google's
+const CLOCK_SKEW_SECONDS = 300;
+// How long fetched keys are used when the response has no max-age
+const DEFAULT_KEY_CACHE_SECONDS = 3600;
+// Least time between reloads of an unexpired key set for an unknown key id
+const MIN_KEY_RELOAD_SECONDS = 60;
+
+export interface PubSubPushIdentity {
+  // Service account the push subscription authenticates as
+  email?: string;
+  subject: string;
+  audience: string;
+}
+
+/**
+ * Thrown when a push request does not carry a valid Pub/Sub OIDC token
+ */
+export class PubSubAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PubSubAuthError';
+  }
+}
+
+interface JsonWebKeySet {
+  keys: Array<crypto.JsonWebKey & { kid?: string }>;
+}
+
+interface PubSubAuthConfig {
+  audience: string;
+  serviceAccountEmail?: string;
+  // A local key set (JWKS JSON) used instead of Google's, for tests
+  jwksFile?: string;
+  jwksUrl: string;
+}
+
+/**
+ * Verifies the OIDC bearer token Pub/Sub attaches to authenticated push
+ * requests: an RS256 JWT signed by Google, issued for the configured
+ * audience and, when configured, the push subscription's service account.
+ *
+ * Environment:
+ *   PUBSUB_AUDIENCE               expected audience (default: NEXTAUTH_URL + /api/gmail-webhook)
+ *   PUBSUB_SERVICE_ACCOUNT_EMAIL  expected service account of the subscription
+ *   PUBSUB_JWKS_FILE              local key set to verify against instead of Google's
+ */
+export class PubSubAuthenticator {
+  private static instance: PubSubAuthenticator;
+  private config: PubSubAuthConfig;
+  private keys: Map<string, crypto.KeyObject> = new Map();
+  private keysExpireAt = 0;
+  private keysLoadedAt = 0;
+  private keysLoading: Promise<void> | null = null;
+
+  constructor(config?: Partial<PubSubAuthConfig>) {
+    this.config = {
+      audience: config?.audience || PubSubAuthenticator.getAudience(),
+      serviceAccountEmail: config?.serviceAccountEmail || process.env.PUBSUB_SERVICE_ACCOUNT_EMAIL || undefined,
+      jwksFile: config?.jwksFile || process.env.PUBSUB_JWKS_FILE || undefined,
+      jwksUrl: config?.jwksUrl || GOOGLE_JWKS_URL
+    };
+  }
+
+  public static getInstance(): PubSubAuthenticator {
+    if (!PubSubAuthenticator.instance) {
+      PubSubAuthenticator.instance = new PubSubAuthenticator();
+    }
+    return PubSubAuthenticator.instance;
+  }
+
+  /**
+   * Audience the push subscription is configured with
+   */
+  static getAudience(): string {
+    if (process.env.PUBSUB_AUDIENCE) {
+      return process.env.PUBSUB_AUDIENCE;
+    }
+    return `${(process.env.NEXTAUTH_URL || '').replace(/\/+$/, '')}/api/gmail-webhook`;
+  }
+
+  /**
+   * Whether the webhook accepts requests without a token, and notification
+   * bodies that did not come through Pub/Sub. Only for local development:
+   * it needs GMAIL_WEBHOOK_DEV_MODE=true and is refused in production.
+   */
+  static isDevMode(): boolean {
+    if (process.env.GMAIL_WEBHOOK_DEV_MODE !== 'true') {
+      return false;
+    }
+    if (process.env.NODE_ENV === 'production') {
+      console.warn('GMAIL_WEBHOOK_DEV_MODE is ignored in production');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Verify the Authorization header of a push request
+   * @throws PubSubAuthError when the token is missing or invalid
+   */
+  async verify(authorization: string | undefined): Promise<PubSubPushIdentity> {
+    const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      throw new PubSubAuthError('Missing bearer token');
+    }
+
+    const parts = match[1].split('.');
+    if (parts.length !== 3) {
+      throw new PubSubAuthError('Malformed token');
+    }
+
+    let header: any;
+    let claims: any;
+    try {
+      header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+      claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    } catch {
+      throw new PubSubAuthError('Malformed token');
+    }
+
+    if (header.alg !== 'RS256') {
+      throw new PubSubAuthError(`Unsupported token algorithm ${header.alg}`);
+    }
+
+    const key = await this.getKey(header.kid);
+    const signed = crypto.verify(
+      'RSA-SHA256',
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      key,
+      Buffer.from(parts[2], 'base64url')
+    );
+    if (!signed) {
+      throw new PubSubAuthError('Invalid token signature');
+    }
+
+    this.checkClaims(claims);
+
+    return { email: claims.email, subject: claims.sub, audience: claims.aud };
+  }
+
+  private checkClaims(claims: any): void {
+    const now = Math.floor(Date.now() / 1000);
+
+    if (!GOOGLE_ISSUERS.includes(claims.iss)) {
+      throw new PubSubAuthError(`Unexpected token issuer ${claims.iss}`);
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.config.audience)) {
+      throw new PubSubAuthError(`Token audience ${claims.aud} does not match ${this.config.audience}`);
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new PubSubAuthError('Token has expired');
+    }
+    if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) {
+      throw new PubSubAuthError('Token was issued in the future');
+    }
+
+    if (this.config.serviceAccountEmail) {
+      if (claims.email !== this.config.serviceAccountEmail || claims.email_verified !== true) {
+        throw new PubSubAuthError(`Token was not issued to ${this.config.serviceAccountEmail}`);
+      }
+    }
+  }
+
+  /**
+   * Signing key by id. Google rotates its keys, so an unknown id refreshes
+   * the cached set before the token is rejected. Unauthenticated callers
+   * choose the id, so that refresh happens at most once a minute.
+   */
+  private async getKey(kid: string | undefined): Promise<crypto.KeyObject> {
+    const now = Date.now();
+    const unknownKid = !!kid && !this.keys.has(kid);
+    if (now >= this.keysExpireAt || (unknownKid && now - this.keysLoadedAt >= MIN_KEY_RELOAD_SECONDS * 1000)) {
+      // Concurrent requests share one load
+      this.keysLoading = this.keysLoading || this.loadKeys().finally(() => {
+        this.keysLoading = null;
+      });
+      await this.keysLoading;
+    }
+
+    const key = kid ? this.keys.get(kid) : this.keys.size === 1 ? Array.from(this.keys.values())[0] : undefined;
+    if (!key) {
+      throw new PubSubAuthError(`Unknown token signing key ${kid}`);
+    }
+    return key;
+  }
+
+  private async loadKeys(): Promise<void> {
+    let keySet: JsonWebKeySet;
+    let maxAgeSeconds = DEFAULT_KEY_CACHE_SECONDS;
+
+    if (this.config.jwksFile) {
+      keySet = JSON.parse(fs.readFileSync(this.config.jwksFile, 'utf8'));
+    } else {
+      const response = await fetch(this.config.jwksUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch Google signing keys: HTTP ${response.status}`);
+      }
+      keySet = await response.json();
+
+      const maxAge = response.headers.get('cache-control')?.match(/max-age=(\d+)/);
+      if (maxAge) {
+        maxAgeSeconds = parseInt(maxAge[1], 10);
+      }
+    }
+
+    const keys = new Map<string, crypto.KeyObject>();
+    for (const jwk of keySet.keys || []) {
+      if (jwk.kty !== 'RSA') continue;
+      keys.set(jwk.kid || '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+
+    this.keys = keys;
+    this.keysLoadedAt = Date.now();
+    this.keysExpireAt = this.keysLoadedAt + maxAgeSeconds * 1000;
+  }
+}
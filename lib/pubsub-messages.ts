@@ -0,0 +1,52 @@
+import { DatabaseManager } from './db';
+
+// Pub/Sub keeps redelivering an unacknowledged message for up to 7 days
+const RETENTION_DAYS = 7;
+
+/**
+ * Pub/Sub push deliveries seen by the webhook, by messageId. Pub/Sub
+ * delivers at least once, so the same message can arrive again after it
+ * was handled; claiming its id first makes the redelivery a no-op.
+ */
+export class PubSubMessageLog {
+  private static instance: PubSubMessageLog;
+  private db: DatabaseManager;
+
+  private constructor() {
+    this.db = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): PubSubMessageLog {
+    if (!PubSubMessageLog.instance) {
+      PubSubMessageLog.instance = new PubSubMessageLog();
+    }
+    return PubSubMessageLog.instance;
+  }
+
+  /**
+   * Record a message before handling it
+   * @returns boolean - False when the message was already claimed
+   */
+  claim(messageId: string, subscription?: string): boolean {
+    const db = this.db.getDb();
+
+    db.prepare(`
+      DELETE FROM pubsub_messages WHERE received_at < datetime('now', ?)
+    `).run(`-${RETENTION_DAYS} days`);
+
+    const result = db.prepare(`
+      INSERT INTO pubsub_messages (message_id, subscription, received_at)
+      VALUES (?, ?, datetime('now'))
+      ON CONFLICT(message_id) DO NOTHING
+    `).run(messageId, subscription ?? null);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Forget a message whose handling failed, so its redelivery is handled
+   */
+  release(messageId: string): void {
+    this.db.getDb().prepare('DELETE FROM pubsub_messages WHERE message_id = ?').run(messageId);
+  }
+}
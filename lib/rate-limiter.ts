@@ -0,0 +1,125 @@
+import { sleep } from './retry';
+
+export interface RateLimiterOptions {
+  // Maximum number of in-flight requests
+  maxConcurrency: number;
+  // Token budget per rolling 60s window (0 disables the token limit)
+  tokensPerMinute: number;
+}
+
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Concurrency and tokens-per-minute limiter shared by all requests to one
+ * provider endpoint and model
+ */
+export class RateLimiter {
+  private static limiters = new Map<string, RateLimiter>();
+
+  private options: RateLimiterOptions;
+  private active: number = 0;
+  private waiting: Array<() => void> = [];
+  private usage: Array<{ time: number; tokens: number }> = [];
+
+  constructor(options: RateLimiterOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Get the shared limiter for a provider's endpoint and model, creating it
+   * on first use. Endpoints and models have their own rate limits, so two
+   * OpenAI-compatible servers do not share a budget.
+   */
+  static forProvider(
+    name: string,
+    baseUrl: string | undefined,
+    model: string,
+    options: RateLimiterOptions = RateLimiter.defaultOptions()
+  ): RateLimiter {
+    const key = `${name}|${baseUrl || ''}|${model}`;
+    let limiter = RateLimiter.limiters.get(key);
+    if (!limiter) {
+      limiter = new RateLimiter(options);
+      RateLimiter.limiters.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  static defaultOptions(): RateLimiterOptions {
+    return {
+      maxConcurrency: Math.max(1, parseInt(process.env.LLM_MAX_CONCURRENCY || '2', 10)),
+      tokensPerMinute: parseInt(process.env.LLM_TOKENS_PER_MINUTE || '0', 10)
+    };
+  }
+
+  /**
+   * Run a task once enough token budget and a concurrency slot are available.
+   * The budget is reserved first, so requests waiting for it do not hold a
+   * slot that smaller requests could use.
+   */
+  async schedule<T>(estimatedTokens: number, task: () => Promise<T>): Promise<T> {
+    await this.reserveTokens(estimatedTokens);
+    await this.acquireSlot();
+    try {
+      return await task();
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < this.options.maxConcurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    // The slot is handed over directly by releaseSlot
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async reserveTokens(tokens: number): Promise<void> {
+    const limit = this.options.tokensPerMinute;
+    if (limit <= 0) return;
+
+    // A single request larger than the whole budget can only wait for an empty window
+    const needed = Math.min(tokens, limit);
+
+    for (;;) {
+      const now = Date.now();
+      this.usage = this.usage.filter(entry => now - entry.time < WINDOW_MS);
+      const used = this.usage.reduce((sum, entry) => sum + entry.tokens, 0);
+
+      if (used + needed <= limit) {
+        this.usage.push({ time: now, tokens });
+        return;
+      }
+
+      // Wait until enough of the oldest usage falls out of the window
+      let freed = 0;
+      let waitMs = WINDOW_MS;
+      for (const entry of this.usage) {
+        freed += entry.tokens;
+        if (used - freed + needed <= limit) {
+          waitMs = entry.time + WINDOW_MS - now;
+          break;
+        }
+      }
+      await sleep(Math.max(waitMs, 50));
+    }
+  }
+}
+
+/**
+ * Rough token estimate (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
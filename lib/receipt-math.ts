@@ -0,0 +1,25 @@
+import { LineItem } from '../types/receipt-types';
+
+/**
+ * Round a currency amount to cents
+ */
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Sum of price × quantity over all line items
+ */
+export function sumLineItems(lineItems: LineItem[]): number {
+  return roundCurrency(
+    lineItems.reduce((sum, item) => sum + item.price * (item.quantity ?? 1), 0)
+  );
+}
+
+/**
+ * Compare two amounts, allowing for per-line rounding (1 cent or 0.5%, whichever is larger)
+ */
+export function amountsMatch(actual: number, expected: number): boolean {
+  const tolerance = Math.max(0.01, Math.abs(expected) * 0.005);
+  return Math.abs(actual - expected) <= tolerance + 1e-9;
+}
@@ -1,64 +1,552 @@
 import { DatabaseManager } from './db';
-import { GroqLLMProcessor } from './groq-processor';
+import { LLMAttempt, LLMCallOptions, LLMProvider, LLMUsage, LLMValidationError } from './llm-provider';
+import { createLLMProvider, getSecondaryLLMConfig } from './llm-config';
+import { ChunkedExtractor } from './chunked-extraction';
+import { SelfConsistencyExtractor } from './self-consistency';
+import { LLMResponseCache } from './llm-cache';
+import { LLMUsageLog } from './llm-usage';
+import { ReceiptValidator } from './receipt-validator';
 import { PdfProcessor } from './pdf-processor';
+import { OcrProcessor } from './ocr-processor';
+import { getDocumentKind, resolveDocumentMimeType } from './document-types';
+import { HtmlConverter } from './html-converter';
+import { PdfPasswordStore } from './pdf-password-store';
+import { ReceiptSegment, ReceiptSegmenter } from './receipt-segmenter';
+import { BlobStore, createBlobStore } from './blob-store';
+import { EMAIL_BODY_FILENAME } from './job-queue';
+import { ReceiptRevisionStore } from './receipt-revisions';
 import { 
   EmailData, 
-  PdfAttachment, 
+  EmailBody,
+  DocumentAttachment, 
+  DocumentSource,
   ProcessingResult, 
   LedgerEntry, 
   LedgerSummaryData, 
   LedgerFilterOptions,
-  PaginatedResult
+  LLMExtractionResult,
+  PaginatedResult,
+  ProcessingOptions,
+  ReprocessOptions,
+  TextExtractionMethod,
+  TextLayoutMode
 } from '../types/receipt-types';
 
+/**
+ * Clean extracted text the way its extraction method needs: layout text
+ * keeps its line breaks and column padding, everything else is collapsed
+ */
+function cleanExtractedText(text: string, extractionMethod: TextExtractionMethod): string {
+  return extractionMethod === 'layout' ? PdfProcessor.cleanLayoutText(text) : PdfProcessor.cleanText(text);
+}
+
+/**
+ * Where a document came from, beyond its email id
+ */
+export interface DocumentContext {
+  // The email's sender, used to find passwords for protected PDFs
+  sender?: string;
+  // ingestions.id, recorded on the analysis and ledger rows
+  ingestionId?: number;
+}
+
+/**
+ * Document text ready for classification and extraction
+ */
+interface ExtractedText {
+  text: string;
+  pages: string[];
+  extractionMethod: TextExtractionMethod;
+  ocrConfidence?: number;
+  source: DocumentSource;
+  // Pages of the file this text covers, set when the file holds several receipts
+  pageRange?: { startPage: number; endPage: number };
+  // The original file in the blob store
+  document?: { hash: string; mimeType: string };
+  ingestionId?: number;
+}
+
 export class ReceiptProcessor {
   private db: DatabaseManager;
-  private groqProcessor: GroqLLMProcessor;
+  private llmProvider: LLMProvider;
+  private chunkedExtractor: ChunkedExtractor;
+  private consistencyExtractor: SelfConsistencyExtractor;
+  private blobStore: BlobStore;
   
-  constructor() {
+  constructor(llmProvider?: LLMProvider, secondaryProvider?: LLMProvider, blobStore?: BlobStore) {
     this.db = DatabaseManager.getInstance();
+    this.blobStore = blobStore || createBlobStore();
+    
+    // Use the injected provider, or the one selected by LLM_PROVIDER et al.
+    this.llmProvider = llmProvider || createLLMProvider();
+    this.chunkedExtractor = new ChunkedExtractor(this.llmProvider);
+    
+    // Optional self-consistency voting, across a second provider (SECONDARY_LLM_PROVIDER)
+    // and/or repeated runs (EXTRACTION_CONSISTENCY_RUNS)
+    const secondaryConfig = getSecondaryLLMConfig();
+    const secondary = secondaryProvider || (secondaryConfig ? createLLMProvider(secondaryConfig) : undefined);
+    this.consistencyExtractor = new SelfConsistencyExtractor(
+      secondary ? [this.llmProvider, secondary] : [this.llmProvider],
+      SelfConsistencyExtractor.getRuns(),
+      SelfConsistencyExtractor.getTemperature()
+    );
+  }
+
+  /**
+   * Process a document (PDF or receipt photo) from an email attachment
+   * @param context - The sender and ingestion of the document
+   * @param options - Options for this pipeline run, e.g. the PDF text layout
+   */
+  async processDocument(
+    emailId: string,
+    attachment: DocumentAttachment,
+    context: DocumentContext = {},
+    options: ProcessingOptions = {}
+  ): Promise<ProcessingResult> {
+    const overallStartTime = Date.now();
+    const { filename, data, contentType } = attachment;
+    
+    try {
+      // STEP 1: Get the document text
+      const mimeType = resolveDocumentMimeType(contentType, filename);
+      const textResult = await this.extractDocumentText(emailId, attachment, context.sender, options.textLayout);
+      
+      // If no text could be extracted, return the error
+      if (!textResult.success) {
+        return textResult;
+      }
+      
+      // Get the extracted text
+      const { text, pages = [], extractionMethod, ocrConfidence } = textResult.data;
+      
+      // Keep the original file so the ledger can serve it without a Gmail token
+      const document = await this.storeOriginalDocument(emailId, filename, data, mimeType as string);
+      
+      // Expense reports and order statements hold several receipts; each one is
+      // extracted and stored on its own
+      const segments = ReceiptSegmenter.isEnabled() ? ReceiptSegmenter.segment(pages) : [];
+      if (segments.length > 1) {
+        return await this.processSegments(emailId, filename, segments, {
+          extractionMethod,
+          ocrConfidence,
+          source: 'attachment',
+          document,
+          ingestionId: context.ingestionId
+        }, overallStartTime);
+      }
+      
+      return await this.processText(emailId, filename, {
+        text: cleanExtractedText(text, extractionMethod),
+        pages: pages.map((page: string) => cleanExtractedText(page, extractionMethod)),
+        extractionMethod,
+        ocrConfidence,
+        source: 'attachment',
+        document,
+        ingestionId: context.ingestionId
+      }, overallStartTime);
+      
+    } catch (error) {
+      return await this.handleProcessingError(emailId, filename, error, overallStartTime);
+    }
+  }
+
+  /**
+   * Get the text of a document; the pipeline is chosen by MIME type. PDFs
+   * fall back to OCR when scanned, photos always go through OCR.
+   * @returns ProcessingResult whose data has the text, per-page text,
+   *          extraction method and OCR confidence
+   */
+  private async extractDocumentText(
+    emailId: string,
+    { filename, data, contentType }: DocumentAttachment,
+    sender?: string,
+    textLayout?: TextLayoutMode
+  ): Promise<ProcessingResult> {
+    switch (getDocumentKind(contentType, filename)) {
+      case 'pdf':
+        return this.extractPdfText(emailId, filename, data, sender, textLayout);
+      case 'image':
+        return this.extractImageText(emailId, filename, data, resolveDocumentMimeType(contentType, filename) as string);
+      default: {
+        const message = `Unsupported attachment type: ${contentType || 'unknown'}`;
+        await this.logProcessingStep({
+          emailId,
+          filename,
+          stage: 'unsupported_document',
+          success: false,
+          errorMessage: message,
+          processingTime: 0
+        });
+        return { success: false, stage: 'unsupported_document', message, processingTime: 0 };
+      }
+    }
+  }
+
+  /**
+   * Process each receipt of a multi-receipt document as its own document,
+   * all stored against the same email and file with their page ranges
+   */
+  private async processSegments(
+    emailId: string,
+    filename: string,
+    segments: ReceiptSegment[],
+    base: Pick<ExtractedText, 'extractionMethod' | 'ocrConfidence' | 'source' | 'document' | 'ingestionId'>,
+    overallStartTime: number
+  ): Promise<ProcessingResult> {
+    const ranges = segments.map(segment =>
+      segment.startPage === segment.endPage ? `${segment.startPage}` : `${segment.startPage}-${segment.endPage}`
+    );
+    
+    await this.logProcessingStep({
+      emailId,
+      filename,
+      stage: 'segmentation',
+      success: true,
+      errorMessage: `Split into ${segments.length} receipts (pages ${ranges.join(', ')})`,
+      processingTime: 0
+    });
     
-    // Initialize the Groq processor with API key
-    // In production, this should be stored in environment variables
-    const groqApiKey = process.env.GROQ_API_KEY || 'your-g"roq-api-key';
-    this.groqProcessor = new GroqLLMProcessor(groqApiKey);
+    // A failing segment is recorded and the others go on. The file is retried
+    // when a segment failed for a transient reason; the job worker clears
+    // what the earlier attempt stored before the retry runs.
+    const results: ProcessingResult[] = [];
+    for (const segment of segments) {
+      const segmentStartTime = Date.now();
+      const pages = segment.pages.map(page => cleanExtractedText(page, base.extractionMethod));
+      try {
+        results.push(await this.processText(emailId, filename, {
+          ...base,
+          text: pages.filter(page => page).join('\n\n'),
+          pages,
+          pageRange: { startPage: segment.startPage, endPage: segment.endPage }
+        }, segmentStartTime));
+      } catch (error) {
+        results.push(await this.handleProcessingError(emailId, filename, error, segmentStartTime));
+      }
+    }
+    
+    const stored = results.filter(result => result.stage === 'complete').length;
+    const failed = results.filter(result => !result.success).length;
+    const retryable = results.some(result => !result.success && result.retryable);
+    
+    return {
+      success: failed === 0,
+      stage: 'segmented',
+      message: `Processed ${segments.length} segments: ${stored} receipts stored, ${failed} failed`,
+      retryable,
+      data: {
+        segments: results.map((result, index) => ({
+          startPage: segments[index].startPage,
+          endPage: segments[index].endPage,
+          result
+        }))
+      },
+      processingTime: Date.now() - overallStartTime
+    };
   }
 
   /**
-   * Process a document (PDF) from an email attachment
+   * Process a receipt sent as the email body itself (HTML or plain text)
+   * rather than as an attachment
    */
-  async processDocument(emailId: string, pdfAttachment: PdfAttachment): Promise<ProcessingResult> {
+  async processEmailBody(emailId: string, body: EmailBody, context: DocumentContext = {}): Promise<ProcessingResult> {
     const overallStartTime = Date.now();
-    const { filename, data: pdfBuffer } = pdfAttachment;
+    const filename = EMAIL_BODY_FILENAME;
     
     try {
-      // STEP 1: Extract text from PDF
-      const pdfResult = await PdfProcessor.extractText(pdfBuffer);
+      // STEP 1: Convert the body to text, keeping table rows on one line
+      const conversionStartTime = Date.now();
+      const text = body.mimeType === 'text/html'
+        ? HtmlConverter.toText(body.content)
+        : HtmlConverter.normalizeText(body.content);
       
-      // Log the PDF extraction step
       await this.logProcessingStep({
         emailId,
         filename,
-        stage: 'pdf_extraction',
-        success: pdfResult.success,
-        errorMessage: pdfResult.error || '',
-        processingTime: pdfResult.processingTime || 0
+        stage: 'body_extraction',
+        success: text.length > 0,
+        errorMessage: text.length > 0 ? '' : 'Email body has no text',
+        processingTime: Date.now() - conversionStartTime
       });
       
-      // If PDF extraction failed, return the error
-      if (!pdfResult.success) {
-        return pdfResult;
+      if (!text) {
+        return {
+          success: false,
+          stage: 'body_extraction',
+          message: 'No text found in email body',
+          processingTime: Date.now() - overallStartTime
+        };
       }
       
-      // Get the extracted text
-      const rawText = pdfResult.data.text;
-      const cleanedText = PdfProcessor.cleanText(rawText);
+      return await this.processText(emailId, filename, {
+        text,
+        pages: [text],
+        extractionMethod: body.mimeType === 'text/html' ? 'html' : 'plain_text',
+        source: 'email_body',
+        ingestionId: context.ingestionId
+      }, overallStartTime);
+      
+    } catch (error) {
+      return await this.handleProcessingError(emailId, filename, error, overallStartTime);
+    }
+  }
+
+  /**
+   * Classify, extract, validate and store a document whose text has been extracted
+   */
+  private async processText(
+    emailId: string,
+    filename: string,
+    { text, pages, extractionMethod, ocrConfidence, source, pageRange, document, ingestionId }: ExtractedText,
+    overallStartTime: number
+  ): Promise<ProcessingResult> {
+    const llmOptions = this.getLLMOptions(emailId, filename);
+    
+    // STEP 2: Classify the document using LLM
+    const classificationStartTime = Date.now();
+    let classification;
+    try {
+      classification = await this.llmProvider.classifyDocument(text, llmOptions);
+    } catch (error) {
+      return await this.handleLLMFailure(emailId, filename, 'document_classification', error, classificationStartTime, overallStartTime);
+    }
+    
+    // Log the classification step
+    await this.logProcessingStep({
+      emailId,
+      filename,
+      stage: 'document_classification',
+      success: true,
+      errorMessage: '',
+      processingTime: Date.now() - classificationStartTime
+    });
+    
+    // STEP 3: Store the classification result
+    const analysisId = await this.storeDocumentAnalysis({
+      emailId,
+      filename,
+      isReceipt: classification.isReceipt,
+      confidenceScore: classification.confidence,
+      documentType: classification.documentType,
+      llmReasoning: classification.reasoning,
+      keyIndicators: JSON.stringify(classification.keyIndicators),
+      promptVersion: this.llmProvider.getPromptId('classification'),
+      ingestionId: ingestionId ?? null
+    });
+    
+    // If not classified as a receipt, we're done
+    if (!classification.isReceipt) {
+      return {
+        success: true,
+        stage: 'classification',
+        message: `Document not classified as a receipt (${classification.documentType})`,
+        data: classification,
+        processingTime: Date.now() - overallStartTime
+      };
+    }
+    
+    // STEP 4: Extract receipt data using LLM
+    const extractionStartTime = Date.now();
+    let extractionResult;
+    let extractionPromptVersion;
+    try {
+      ({ extractionResult, promptVersion: extractionPromptVersion } =
+        await this.extractReceipt(text, pages, pageRange, llmOptions));
+    } catch (error) {
+      return await this.handleLLMFailure(emailId, filename, 'receipt_extraction', error, extractionStartTime, overallStartTime, analysisId);
+    }
+    
+    // Log the extraction step
+    await this.logProcessingStep({
+      emailId,
+      filename,
+      stage: 'receipt_extraction',
+      success: true,
+      errorMessage: '',
+      processingTime: Date.now() - extractionStartTime
+    });
+    
+    // STEP 5: Validate the arithmetic and date of the extracted receipt
+    const validationStartTime = Date.now();
+    const validation = ReceiptValidator.validate(extractionResult);
+    const extractionIssues = [...(extractionResult.extractionIssues || []), ...validation.issues];
+    
+    await this.logProcessingStep({
+      emailId,
+      filename,
+      stage: 'validation',
+      success: validation.valid,
+      errorMessage: validation.issues.join('; '),
+      processingTime: Date.now() - validationStartTime
+    });
+    
+    // STEP 6: Store the receipt data
+    await this.storeReceiptData({
+      emailId,
+      filename,
+      merchantName: extractionResult.merchantName,
+      transactionDate: extractionResult.transactionDate,
+      totalAmount: extractionResult.totalAmount,
+      // Null when the receipt does not show them
+      taxAmount: extractionResult.taxAmount ?? null,
+      subtotal: extractionResult.subtotal ?? null,
+      paymentMethod: extractionResult.paymentMethod ?? null,
+      lineItems: JSON.stringify(extractionResult.lineItems || []),
+      llmConfidence: validation.adjustedConfidence,
+      llmExtractionIssues: JSON.stringify(extractionIssues),
+      rawText: text,
+      promptVersion: extractionPromptVersion,
+      fieldConfidence: extractionResult.fieldConfidence ? JSON.stringify(extractionResult.fieldConfidence) : null,
+      extractionMethod,
+      ocrConfidence: ocrConfidence ?? null,
+      source,
+      pageStart: pageRange ? pageRange.startPage : null,
+      pageEnd: pageRange ? pageRange.endPage : null,
+      documentHash: document ? document.hash : null,
+      documentMimeType: document ? document.mimeType : null,
+      ingestionId: ingestionId ?? null
+    });
+    
+    // Return the complete processing result
+    return {
+      success: true,
+      stage: 'complete',
+      message: 'Receipt successfully processed',
+      data: {
+        classification,
+        extraction: extractionResult,
+        validation
+      },
+      processingTime: Date.now() - overallStartTime
+    };
+  }
+
+  /**
+   * Extract receipt data, page chunk by page chunk for long documents and by
+   * self-consistency voting when it is enabled
+   * @returns The extraction and the id of the prompt that produced it
+   */
+  private async extractReceipt(
+    text: string,
+    pages: string[],
+    pageRange: ExtractedText['pageRange'],
+    llmOptions: LLMCallOptions
+  ): Promise<{ extractionResult: LLMExtractionResult; promptVersion: string }> {
+    if (ChunkedExtractor.shouldChunk(text, pages)) {
+      return {
+        extractionResult: await this.chunkedExtractor.extract(pages, llmOptions, pageRange ? pageRange.startPage : 1),
+        promptVersion: this.llmProvider.getPromptId('chunk_extraction')
+      };
+    }
+    
+    const extractionResult = this.consistencyExtractor.isEnabled()
+      ? await this.consistencyExtractor.extract(text, llmOptions)
+      : await this.llmProvider.extractReceiptData(text, llmOptions);
+    return { extractionResult, promptVersion: this.llmProvider.getPromptId('extraction') };
+  }
+
+  /**
+   * LLM call options that record every attempt, including schema repair
+   * retries, and its token usage against the document
+   */
+  private getLLMOptions(emailId: string, filename: string): LLMCallOptions {
+    return {
+      onAttempt: (attempt: LLMAttempt) => this.logLLMAttempt(emailId, filename, attempt),
+      onUsage: (usage: LLMUsage) => LLMUsageLog.getInstance().record(emailId, filename, usage)
+    };
+  }
+
+  /**
+   * Classify and extract a ledger receipt again, with the current model and
+   * prompts, from its stored text or from the original document. The result
+   * is stored as a pending revision next to the ledger row, which is left
+   * unchanged until the user accepts the revision.
+   * @param jobId - The reprocess job, recorded on the revision
+   */
+  async reprocessLedgerEntry(
+    ledgerId: number,
+    options: ReprocessOptions = {},
+    jobId?: number
+  ): Promise<ProcessingResult> {
+    const overallStartTime = Date.now();
+    const entry = await this.getLedgerEntryById(ledgerId);
+    if (!entry) {
+      return {
+        success: false,
+        stage: 'reprocess',
+        message: `Receipt ${ledgerId} not found`,
+        processingTime: 0
+      };
+    }
+    
+    const { emailId, filename } = entry;
+    
+    try {
+      // STEP 1: Get the text, from the original document when asked for and
+      // kept; email body receipts only have their stored text
+      let text = entry.rawText || '';
+      let pages = [text];
+      let reextracted: Pick<ExtractedText, 'extractionMethod' | 'ocrConfidence'> | undefined;
       
-      // STEP 2: Classify the document using LLM
+      if (options.source === 'document' && entry.documentHash) {
+        const data = await this.blobStore.get(entry.documentHash);
+        if (!data) {
+          return {
+            success: false,
+            stage: 'reprocess',
+            message: `Original document of receipt ${ledgerId} is missing from the blob store`,
+            processingTime: Date.now() - overallStartTime
+          };
+        }
+        
+        // The sender is not kept on the ledger, so protected PDFs cannot be reopened
+        const textResult = await this.extractDocumentText(
+          emailId,
+          { filename, data, contentType: entry.documentMimeType || '' },
+          undefined,
+          options.textLayout
+        );
+        if (!textResult.success) {
+          return textResult;
+        }
+        
+        // A receipt split out of a multi-receipt file only covers its own pages
+        const { extractionMethod, ocrConfidence } = textResult.data;
+        const allPages: string[] = textResult.data.pages || [textResult.data.text];
+        pages = (entry.pageStart !== undefined ? allPages.slice(entry.pageStart - 1, entry.pageEnd ?? entry.pageStart) : allPages)
+          .map(page => cleanExtractedText(page, extractionMethod));
+        text = pages.filter(page => page).join('\n\n');
+        reextracted = { extractionMethod, ocrConfidence };
+      }
+      
+      if (!text) {
+        return {
+          success: false,
+          stage: 'reprocess',
+          message: `No text available to reprocess receipt ${ledgerId}`,
+          processingTime: Date.now() - overallStartTime
+        };
+      }
+      
+      const llmOptions = this.getLLMOptions(emailId, filename);
+      const revisionBase = {
+        ledgerId,
+        model: `${this.llmProvider.name}/${this.llmProvider.model}`,
+        rawText: reextracted ? text : undefined,
+        extractionMethod: reextracted?.extractionMethod,
+        ocrConfidence: reextracted?.ocrConfidence,
+        jobId
+      };
+      
+      // STEP 2: Classify the document again
       const classificationStartTime = Date.now();
-      const classification = await this.groqProcessor.classifyDocument(cleanedText);
+      let classification;
+      try {
+        classification = await this.llmProvider.classifyDocument(text, llmOptions);
+      } catch (error) {
+        return await this.logLLMFailure(emailId, filename, 'document_classification', error, classificationStartTime, overallStartTime);
+      }
       
-      // Log the classification step
       await this.logProcessingStep({
         emailId,
         filename,
@@ -68,33 +556,40 @@ export class ReceiptProcessor {
         processingTime: Date.now() - classificationStartTime
       });
       
-      // STEP 3: Store the classification result
-      await this.storeDocumentAnalysis({
-        emailId,
-        filename,
-        isReceipt: classification.isReceipt,
-        confidenceScore: classification.confidence,
-        documentType: classification.documentType,
-        llmReasoning: classification.reasoning,
-        keyIndicators: JSON.stringify(classification.keyIndicators)
-      });
-      
-      // If not classified as a receipt, we're done
+      // A document no longer classified as a receipt is still offered as a
+      // revision, so the user sees the new verdict
       if (!classification.isReceipt) {
+        const revisionId = ReceiptRevisionStore.getInstance().create({
+          ...revisionBase,
+          isReceipt: false,
+          documentType: classification.documentType,
+          promptVersion: this.llmProvider.getPromptId('classification')
+        });
+        
         return {
           success: true,
-          stage: 'classification',
-          message: `Document not classified as a receipt (${classification.documentType})`,
-          data: classification,
+          stage: 'revision',
+          message: `Receipt ${ledgerId} is no longer classified as a receipt (${classification.documentType})`,
+          data: { revisionId, classification },
           processingTime: Date.now() - overallStartTime
         };
       }
       
-      // STEP 4: Extract receipt data using LLM
+      // STEP 3: Extract and validate the receipt data again
       const extractionStartTime = Date.now();
-      const extractionResult = await this.groqProcessor.extractReceiptData(cleanedText);
+      let extractionResult;
+      let promptVersion;
+      try {
+        ({ extractionResult, promptVersion } = await this.extractReceipt(
+          text,
+          pages,
+          entry.pageStart !== undefined ? { startPage: entry.pageStart, endPage: entry.pageEnd ?? entry.pageStart } : undefined,
+          llmOptions
+        ));
+      } catch (error) {
+        return await this.logLLMFailure(emailId, filename, 'receipt_extraction', error, extractionStartTime, overallStartTime);
+      }
       
-      // Log the extraction step
       await this.logProcessingStep({
         emailId,
         filename,
@@ -104,73 +599,337 @@ export class ReceiptProcessor {
         processingTime: Date.now() - extractionStartTime
       });
       
-      // STEP 5: Store the receipt data
-      await this.storeReceiptData({
+      const validation = ReceiptValidator.validate(extractionResult);
+      
+      // STEP 4: Store the result as a revision, like a ledger row
+      const revisionId = ReceiptRevisionStore.getInstance().create({
+        ...revisionBase,
+        isReceipt: true,
+        documentType: classification.documentType,
+        merchantName: extractionResult.merchantName,
+        transactionDate: extractionResult.transactionDate,
+        totalAmount: extractionResult.totalAmount,
+        taxAmount: extractionResult.taxAmount ?? null,
+        subtotal: extractionResult.subtotal ?? null,
+        paymentMethod: extractionResult.paymentMethod ?? null,
+        lineItems: extractionResult.lineItems || [],
+        llmConfidence: validation.adjustedConfidence,
+        llmExtractionIssues: [...(extractionResult.extractionIssues || []), ...validation.issues],
+        promptVersion,
+        fieldConfidence: extractionResult.fieldConfidence
+      });
+      
+      await this.logProcessingStep({
         emailId,
         filename,
-        merchantName: extractionResult.merchantName || 'Unknown Merchant',
-        transactionDate: extractionResult.transactionDate || new Date().toISOString().split('T')[0],
-        totalAmount: extractionResult.totalAmount || 0,
-        taxAmount: extractionResult.taxAmount || 0,
-        subtotal: extractionResult.subtotal || 0,
-        paymentMethod: extractionResult.paymentMethod || 'Unknown',
-        lineItems: JSON.stringify(extractionResult.lineItems || []),
-        llmConfidence: extractionResult.confidence,
-        llmExtractionIssues: JSON.stringify(extractionResult.extractionIssues || []),
-        rawText: cleanedText
+        stage: 'revision',
+        success: true,
+        errorMessage: `Revision ${revisionId} of receipt ${ledgerId}`,
+        processingTime: 0
       });
       
-      // Return the complete processing result
       return {
         success: true,
-        stage: 'complete',
-        message: 'Receipt successfully processed',
-        data: {
-          classification,
-          extraction: extractionResult
-        },
+        stage: 'revision',
+        message: `Stored revision ${revisionId} of receipt ${ledgerId}`,
+        data: { revisionId, classification, extraction: extractionResult, validation },
         processingTime: Date.now() - overallStartTime
       };
       
     } catch (error) {
-      console.error(`Error processing document ${filename}:`, error);
-      
-      // Log the error
+      return await this.handleProcessingError(emailId, filename, error, overallStartTime);
+    }
+  }
+
+  /**
+   * Delete the analysis and ledger rows stored for an ingestion, before a
+   * forced reprocess stores new ones
+   * @returns number - The number of ledger rows removed
+   */
+  clearIngestionResults(ingestionId: number): number {
+    const db = this.db.getDb();
+    return db.transaction(() => {
+      db.prepare('DELETE FROM document_analysis WHERE ingestion_id = ?').run(ingestionId);
+      db.prepare(`
+        DELETE FROM receipt_revisions
+        WHERE ledger_id IN (SELECT id FROM receipt_ledger WHERE ingestion_id = ?)
+      `).run(ingestionId);
+      return db.prepare('DELETE FROM receipt_ledger WHERE ingestion_id = ?').run(ingestionId).changes;
+    })();
+  }
+
+  /**
+   * Put an original document in the blob store. A storage failure is logged
+   * but does not stop processing; the ledger row then has no document.
+   */
+  private async storeOriginalDocument(
+    emailId: string,
+    filename: string,
+    data: Buffer,
+    mimeType: string
+  ): Promise<{ hash: string; mimeType: string } | undefined> {
+    const startTime = Date.now();
+    try {
+      const hash = await this.blobStore.put(data);
+      return { hash, mimeType };
+    } catch (error) {
+      console.error(`Error storing original document ${filename}:`, error);
       await this.logProcessingStep({
         emailId,
         filename,
-        stage: 'processing_error',
+        stage: 'document_storage',
         success: false,
         errorMessage: error instanceof Error ? error.message : String(error),
-        processingTime: Date.now() - overallStartTime
+        processingTime: Date.now() - startTime
       });
-      
-      return {
-        success: false,
-        stage: 'error',
-        message: 'Error during document processing',
-        error: error instanceof Error ? error.message : String(error),
-        processingTime: Date.now() - overallStartTime
-      };
+      return undefined;
     }
   }
 
+  /**
+   * Log an unexpected processing error and build the failure result
+   */
+  private async handleProcessingError(
+    emailId: string,
+    filename: string,
+    error: unknown,
+    overallStartTime: number
+  ): Promise<ProcessingResult> {
+    console.error(`Error processing document ${filename}:`, error);
+    
+    // Log the error
+    await this.logProcessingStep({
+      emailId,
+      filename,
+      stage: 'processing_error',
+      success: false,
+      errorMessage: error instanceof Error ? error.message : String(error),
+      processingTime: Date.now() - overallStartTime
+    });
+    
+    return {
+      success: false,
+      stage: 'error',
+      message: 'Error during document processing',
+      error: error instanceof Error ? error.message : String(error),
+      processingTime: Date.now() - overallStartTime,
+      retryable: true
+    };
+  }
+
   /**
    * Process multiple email documents in batch
    */
-  async processEmailBatch(emails: EmailData[]): Promise<ProcessingResult[]> {
+  async processEmailBatch(emails: EmailData[], options: ProcessingOptions = {}): Promise<ProcessingResult[]> {
     const results: ProcessingResult[] = [];
     
     for (const email of emails) {
-      for (const attachment of email.pdfAttachments) {
-        const result = await this.processDocument(email.id, attachment);
+      const attachments = email.attachments || [];
+      for (const attachment of attachments) {
+        const result = await this.processDocument(email.id, attachment, { sender: email.sender }, options);
         results.push(result);
       }
+      
+      // Emails without a receipt attachment may carry the receipt in the body
+      if (attachments.length === 0 && email.body) {
+        results.push(await this.processEmailBody(email.id, email.body));
+      }
     }
     
     return results;
   }
 
+  /**
+   * Get the text of a PDF from its text layer, running OCR when the text
+   * layer is empty or looks like a scan. The OCR text is used when it is
+   * longer than the text layer's.
+   * @returns ProcessingResult whose data has the text, per-page text,
+   *          extraction method and OCR confidence
+   */
+  private async extractPdfText(
+    emailId: string,
+    filename: string,
+    pdfBuffer: Buffer,
+    sender?: string,
+    textLayout: TextLayoutMode = PdfProcessor.getLayoutMode()
+  ): Promise<ProcessingResult> {
+    // Protected PDFs are retried with the passwords stored for the sender
+    const passwords = sender ? PdfPasswordStore.getInstance().getPasswords(sender) : [];
+    const pdfResult = await PdfProcessor.extractText(pdfBuffer, passwords, textLayout);
+    
+    // Log the PDF extraction step ('pdf_encrypted' when no password opened it)
+    await this.logProcessingStep({
+      emailId,
+      filename,
+      stage: pdfResult.stage,
+      success: pdfResult.success,
+      errorMessage: pdfResult.stage === 'pdf_encrypted' ? pdfResult.message : pdfResult.error || '',
+      processingTime: pdfResult.processingTime || 0
+    });
+    
+    // OCR cannot read a PDF that pdf.js could not open either
+    if (pdfResult.stage === 'pdf_encrypted') {
+      return pdfResult;
+    }
+    
+    const layerText: string = pdfResult.success ? pdfResult.data.text : '';
+    const needsOcr = !pdfResult.success || PdfProcessor.isLikelyScannedDocument(PdfProcessor.cleanText(layerText));
+    
+    if (needsOcr && OcrProcessor.isEnabled()) {
+      const passwordIndex: number | undefined = pdfResult.data?.passwordIndex;
+      const ocrResult = await OcrProcessor.recognizePdf(
+        pdfBuffer,
+        passwordIndex !== undefined ? passwords[passwordIndex] : undefined
+      );
+      
+      await this.logProcessingStep({
+        emailId,
+        filename,
+        stage: 'ocr',
+        success: ocrResult.success,
+        errorMessage: ocrResult.error || (ocrResult.success ? '' : ocrResult.message),
+        processingTime: ocrResult.processingTime || 0
+      });
+      
+      if (ocrResult.success && PdfProcessor.cleanText(ocrResult.data.text).length > PdfProcessor.cleanText(layerText).length) {
+        return {
+          ...ocrResult,
+          data: {
+            text: ocrResult.data.text,
+            pages: ocrResult.data.pages,
+            extractionMethod: 'ocr' as TextExtractionMethod,
+            ocrConfidence: ocrResult.data.confidence
+          }
+        };
+      }
+    }
+    
+    if (!pdfResult.success) {
+      return pdfResult;
+    }
+    
+    return {
+      ...pdfResult,
+      data: {
+        text: pdfResult.data.text,
+        pages: pdfResult.data.pages,
+        extractionMethod: (textLayout === 'layout' ? 'layout' : 'text_layer') as TextExtractionMethod
+      }
+    };
+  }
+
+  /**
+   * Get the text of a receipt photo with OCR
+   * @returns ProcessingResult with the same data shape as extractPdfText
+   */
+  private async extractImageText(
+    emailId: string,
+    filename: string,
+    imageBuffer: Buffer,
+    mimeType: string
+  ): Promise<ProcessingResult> {
+    // Photos have no text layer, so there is nothing to fall back to
+    const ocrResult: ProcessingResult = OcrProcessor.isEnabled()
+      ? await OcrProcessor.recognizeImage(imageBuffer, mimeType)
+      : { success: false, stage: 'ocr', message: 'OCR is disabled (OCR_ENABLED=false)', processingTime: 0 };
+    
+    await this.logProcessingStep({
+      emailId,
+      filename,
+      stage: 'ocr',
+      success: ocrResult.success,
+      errorMessage: ocrResult.error || (ocrResult.success ? '' : ocrResult.message),
+      processingTime: ocrResult.processingTime || 0
+    });
+    
+    if (!ocrResult.success) {
+      return ocrResult;
+    }
+    
+    return {
+      ...ocrResult,
+      data: {
+        text: ocrResult.data.text,
+        pages: ocrResult.data.pages,
+        extractionMethod: 'ocr' as TextExtractionMethod,
+        ocrConfidence: ocrResult.data.confidence
+      }
+    };
+  }
+
+  /**
+   * Log a failed LLM stage, mark the document as failed and build the
+   * failure result. Nothing is written to receipt_ledger for the document.
+   */
+  private async handleLLMFailure(
+    emailId: string,
+    filename: string,
+    stage: string,
+    error: unknown,
+    stageStartTime: number,
+    overallStartTime: number,
+    analysisId?: number
+  ): Promise<ProcessingResult> {
+    await this.markDocumentFailed({
+      emailId,
+      filename,
+      errorMessage: error instanceof Error ? error.message : String(error),
+      analysisId
+    });
+    
+    return this.logLLMFailure(emailId, filename, stage, error, stageStartTime, overallStartTime);
+  }
+
+  /**
+   * Log a failed LLM stage and build the failure result
+   */
+  private async logLLMFailure(
+    emailId: string,
+    filename: string,
+    stage: string,
+    error: unknown,
+    stageStartTime: number,
+    overallStartTime: number
+  ): Promise<ProcessingResult> {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    
+    await this.logProcessingStep({
+      emailId,
+      filename,
+      stage,
+      success: false,
+      errorMessage,
+      processingTime: Date.now() - stageStartTime
+    });
+    
+    return {
+      success: false,
+      stage,
+      message: error instanceof LLMValidationError
+        ? 'LLM response failed schema validation'
+        : 'LLM request failed after retries',
+      error: errorMessage,
+      processingTime: Date.now() - overallStartTime,
+      retryable: !(error instanceof LLMValidationError)
+    };
+  }
+
+  /**
+   * Log a single LLM request/validation attempt
+   */
+  private logLLMAttempt(emailId: string, filename: string, attempt: LLMAttempt): void {
+    this.logProcessingStep({
+      emailId,
+      filename,
+      stage: `${attempt.task}_attempt`,
+      success: attempt.success,
+      errorMessage: attempt.success
+        ? ''
+        : `Attempt ${attempt.attempt}: ${attempt.errors.join('; ')}`,
+      processingTime: attempt.processingTime
+    });
+  }
+
   /**
    * Log a processing step to the database
    */
@@ -213,7 +972,9 @@ export class ReceiptProcessor {
     confidenceScore,
     documentType,
     llmReasoning,
-    keyIndicators
+    keyIndicators,
+    promptVersion,
+    ingestionId
   }: {
     emailId: string;
     filename: string;
@@ -222,30 +983,70 @@ export class ReceiptProcessor {
     documentType: string;
     llmReasoning: string;
     keyIndicators: string;
-  }): Promise<void> {
+    promptVersion: string;
+    ingestionId: number | null;
+  }): Promise<number> {
     try {
       const stmt = this.db.getDb().prepare(`
         INSERT INTO document_analysis (
           email_id, filename, is_receipt, confidence_score,
-          document_type, llm_reasoning, key_indicators, processed_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+          document_type, llm_reasoning, key_indicators, prompt_version, ingestion_id, processed_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
       `);
       
-      stmt.run(
+      const result = stmt.run(
         emailId,
         filename,
         isReceipt ? 1 : 0,
         confidenceScore,
         documentType,
         llmReasoning,
-        keyIndicators
+        keyIndicators,
+        promptVersion,
+        ingestionId
       );
+      
+      return Number(result.lastInsertRowid);
     } catch (error) {
       console.error('Error storing document analysis:', error);
       throw error;
     }
   }
 
+  /**
+   * Mark a document as failed. Updates the existing analysis row when
+   * classification already succeeded, otherwise records a failed row.
+   */
+  private async markDocumentFailed({
+    emailId,
+    filename,
+    errorMessage,
+    analysisId
+  }: {
+    emailId: string;
+    filename: string;
+    errorMessage: string;
+    analysisId?: number;
+  }): Promise<void> {
+    try {
+      if (analysisId) {
+        this.db.getDb().prepare(`
+          UPDATE document_analysis
+          SET processing_status = 'failed', error_message = ?
+          WHERE id = ?
+        `).run(errorMessage, analysisId);
+      } else {
+        this.db.getDb().prepare(`
+          INSERT INTO document_analysis (
+            email_id, filename, processing_status, error_message, processed_at
+          ) VALUES (?, ?, 'failed', ?, datetime('now'))
+        `).run(emailId, filename, errorMessage);
+      }
+    } catch (error) {
+      console.error('Error marking document as failed:', error);
+    }
+  }
+
   /**
    * Store receipt data in the database
    */
@@ -261,20 +1062,40 @@ export class ReceiptProcessor {
     lineItems,
     llmConfidence,
     llmExtractionIssues,
-    rawText
+    rawText,
+    promptVersion,
+    fieldConfidence,
+    extractionMethod,
+    ocrConfidence,
+    source,
+    pageStart,
+    pageEnd,
+    documentHash,
+    documentMimeType,
+    ingestionId
   }: {
     emailId: string;
     filename: string;
     merchantName: string;
     transactionDate: string;
     totalAmount: number;
-    taxAmount: number;
-    subtotal: number;
-    paymentMethod: string;
+    taxAmount: number | null;
+    subtotal: number | null;
+    paymentMethod: string | null;
     lineItems: string;
     llmConfidence: number;
     llmExtractionIssues: string;
     rawText: string;
+    promptVersion: string;
+    fieldConfidence: string | null;
+    extractionMethod: TextExtractionMethod;
+    ocrConfidence: number | null;
+    source: DocumentSource;
+    pageStart: number | null;
+    pageEnd: number | null;
+    documentHash: string | null;
+    documentMimeType: string | null;
+    ingestionId: number | null;
   }): Promise<void> {
     try {
       const stmt = this.db.getDb().prepare(`
@@ -282,8 +1103,9 @@ export class ReceiptProcessor {
           email_id, filename, merchant_name, transaction_date,
           total_amount, tax_amount, subtotal, payment_method,
           line_items, llm_confidence, llm_extraction_issues, raw_text,
-          created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+          prompt_version, field_confidence, extraction_method, ocr_confidence,
+          source, page_start, page_end, document_hash, document_mime_type, ingestion_id, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
       `);
       
       stmt.run(
@@ -298,7 +1120,17 @@ export class ReceiptProcessor {
         lineItems,
         llmConfidence,
         llmExtractionIssues,
-        rawText
+        rawText,
+        promptVersion,
+        fieldConfidence,
+        extractionMethod,
+        ocrConfidence,
+        source,
+        pageStart,
+        pageEnd,
+        documentHash,
+        documentMimeType,
+        ingestionId
       );
     } catch (error) {
       console.error('Error storing receipt data:', error);
@@ -312,53 +1144,13 @@ export class ReceiptProcessor {
   async getLedgerEntries(filters: LedgerFilterOptions = {}): Promise<PaginatedResult<LedgerEntry>> {
     try {
       const {
-        searchTerm = '',
-        startDate,
-        endDate,
-        minAmount,
-        maxAmount,
-        minConfidence,
         sortField = 'transaction_date',
         sortDirection = 'desc',
         page = 1,
         pageSize = 10
       } = filters;
       
-      // Build the WHERE clause based on filters
-      const whereClauses = [];
-      const parameters = [];
-      
-      if (searchTerm) {
-        whereClauses.push('merchant_name LIKE ?');
-        parameters.push(`%${searchTerm}%`);
-      }
-      
-      if (startDate) {
-        whereClauses.push('transaction_date >= ?');
-        parameters.push(startDate.toISOString().split('T')[0]);
-      }
-      
-      if (endDate) {
-        whereClauses.push('transaction_date <= ?');
-        parameters.push(endDate.toISOString().split('T')[0]);
-      }
-      
-      if (minAmount !== undefined) {
-        whereClauses.push('total_amount >= ?');
-        parameters.push(minAmount);
-      }
-      
-      if (maxAmount !== undefined) {
-        whereClauses.push('total_amount <= ?');
-        parameters.push(maxAmount);
-      }
-      
-      if (minConfidence !== undefined) {
-        whereClauses.push('llm_confidence >= ?');
-        parameters.push(minConfidence);
-      }
-      
-      const whereClause = whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : '';
+      const { whereClause, parameters } = this.buildLedgerWhereClause(filters);
       
       // Count total entries for pagination
       const countStmt = this.db.getDb().prepare(`
@@ -380,7 +1172,13 @@ export class ReceiptProcessor {
         SELECT
           id, email_id, filename, merchant_name, transaction_date,
           total_amount, tax_amount, subtotal, payment_method,
-          line_items, llm_confidence, llm_extraction_issues, raw_text, created_at
+          line_items, llm_confidence, llm_extraction_issues, raw_text,
+          prompt_version, field_confidence, extraction_method, ocr_confidence,
+          source, page_start, page_end, document_hash, document_mime_type, ingestion_id, created_at,
+          (
+            SELECT COUNT(*) FROM receipt_revisions
+            WHERE receipt_revisions.ledger_id = receipt_ledger.id AND receipt_revisions.status = 'pending'
+          ) AS pending_revisions
         FROM receipt_ledger
         ${whereClause}
         ORDER BY ${sanitizedSortField} ${sortDirection === 'asc' ? 'ASC' : 'DESC'}
@@ -390,22 +1188,7 @@ export class ReceiptProcessor {
       const rows = stmt.all(...parameters, pageSize, offset) as any[];
       
       // Transform the rows into LedgerEntry objects
-      const items = rows.map(row => ({
-        id: row.id,
-        emailId: row.email_id,
-        filename: row.filename,
-        merchantName: row.merchant_name,
-        transactionDate: row.transaction_date,
-        totalAmount: row.total_amount,
-        taxAmount: row.tax_amount,
-        subtotal: row.subtotal,
-        paymentMethod: row.payment_method,
-        lineItems: JSON.parse(row.line_items || '[]'),
-        llmConfidence: row.llm_confidence,
-        llmExtractionIssues: JSON.parse(row.llm_extraction_issues || '[]'),
-        rawText: row.raw_text,
-        createdAt: row.created_at
-      }));
+      const items = rows.map(row => this.mapLedgerRow(row));
       
       return {
         items,
@@ -420,6 +1203,79 @@ export class ReceiptProcessor {
     }
   }
 
+  /**
+   * Get the ids of all ledger entries matching the filters, oldest first
+   */
+  getLedgerIds(filters: LedgerFilterOptions = {}): number[] {
+    const { whereClause, parameters } = this.buildLedgerWhereClause(filters);
+    const rows = this.db.getDb().prepare(`
+      SELECT id FROM receipt_ledger ${whereClause} ORDER BY id
+    `).all(...parameters) as Array<{ id: number }>;
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Build the WHERE clause of a ledger query from its filters
+   */
+  private buildLedgerWhereClause({
+    searchTerm = '',
+    startDate,
+    endDate,
+    minAmount,
+    maxAmount,
+    minConfidence,
+    belowConfidence,
+    ids
+  }: LedgerFilterOptions): { whereClause: string; parameters: any[] } {
+    const whereClauses = [];
+    const parameters = [];
+    
+    if (searchTerm) {
+      whereClauses.push('merchant_name LIKE ?');
+      parameters.push(`%${searchTerm}%`);
+    }
+    
+    if (startDate) {
+      whereClauses.push('transaction_date >= ?');
+      parameters.push(startDate.toISOString().split('T')[0]);
+    }
+    
+    if (endDate) {
+      whereClauses.push('transaction_date <= ?');
+      parameters.push(endDate.toISOString().split('T')[0]);
+    }
+    
+    if (minAmount !== undefined) {
+      whereClauses.push('total_amount >= ?');
+      parameters.push(minAmount);
+    }
+    
+    if (maxAmount !== undefined) {
+      whereClauses.push('total_amount <= ?');
+      parameters.push(maxAmount);
+    }
+    
+    if (minConfidence !== undefined) {
+      whereClauses.push('llm_confidence >= ?');
+      parameters.push(minConfidence);
+    }
+    
+    if (belowConfidence !== undefined) {
+      whereClauses.push('llm_confidence < ?');
+      parameters.push(belowConfidence);
+    }
+    
+    if (ids) {
+      whereClauses.push(ids.length > 0 ? `id IN (${ids.map(() => '?').join(', ')})` : '0');
+      parameters.push(...ids);
+    }
+    
+    return {
+      whereClause: whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : '',
+      parameters
+    };
+  }
+
   /**
    * Get a single ledger entry by ID
    */
@@ -429,7 +1285,13 @@ export class ReceiptProcessor {
         SELECT
           id, email_id, filename, merchant_name, transaction_date,
           total_amount, tax_amount, subtotal, payment_method,
-          line_items, llm_confidence, llm_extraction_issues, raw_text, created_at
+          line_items, llm_confidence, llm_extraction_issues, raw_text,
+          prompt_version, field_confidence, extraction_method, ocr_confidence,
+          source, page_start, page_end, document_hash, document_mime_type, ingestion_id, created_at,
+          (
+            SELECT COUNT(*) FROM receipt_revisions
+            WHERE receipt_revisions.ledger_id = receipt_ledger.id AND receipt_revisions.status = 'pending'
+          ) AS pending_revisions
         FROM receipt_ledger
         WHERE id = ?
       `);
@@ -438,28 +1300,46 @@ export class ReceiptProcessor {
       
       if (!row) return null;
       
-      return {
-        id: row.id,
-        emailId: row.email_id,
-        filename: row.filename,
-        merchantName: row.merchant_name,
-        transactionDate: row.transaction_date,
-        totalAmount: row.total_amount,
-        taxAmount: row.tax_amount,
-        subtotal: row.subtotal,
-        paymentMethod: row.payment_method,
-        lineItems: JSON.parse(row.line_items || '[]'),
-        llmConfidence: row.llm_confidence,
-        llmExtractionIssues: JSON.parse(row.llm_extraction_issues || '[]'),
-        rawText: row.raw_text,
-        createdAt: row.created_at
-      };
+      return this.mapLedgerRow(row);
     } catch (error) {
       console.error('Error getting ledger entry by ID:', error);
       throw error;
     }
   }
 
+  /**
+   * Transform a receipt_ledger row into a LedgerEntry
+   */
+  private mapLedgerRow(row: any): LedgerEntry {
+    return {
+      id: row.id,
+      emailId: row.email_id,
+      filename: row.filename,
+      merchantName: row.merchant_name,
+      transactionDate: row.transaction_date,
+      totalAmount: row.total_amount,
+      taxAmount: row.tax_amount,
+      subtotal: row.subtotal,
+      paymentMethod: row.payment_method,
+      lineItems: JSON.parse(row.line_items || '[]'),
+      llmConfidence: row.llm_confidence,
+      llmExtractionIssues: JSON.parse(row.llm_extraction_issues || '[]'),
+      rawText: row.raw_text,
+      promptVersion: row.prompt_version,
+      fieldConfidence: row.field_confidence ? JSON.parse(row.field_confidence) : undefined,
+      extractionMethod: row.extraction_method || 'text_layer',
+      ocrConfidence: row.ocr_confidence ?? undefined,
+      source: row.source || 'attachment',
+      pageStart: row.page_start ?? undefined,
+      pageEnd: row.page_end ?? undefined,
+      documentHash: row.document_hash ?? undefined,
+      documentMimeType: row.document_mime_type ?? undefined,
+      ingestionId: row.ingestion_id ?? undefined,
+      pendingRevisions: row.pending_revisions ?? 0,
+      createdAt: row.created_at
+    };
+  }
+
   /**
    * Get ledger summary statistics
    */
@@ -520,6 +1400,7 @@ export class ReceiptProcessor {
           document_type as type,
           COUNT(*) as count
         FROM document_analysis
+        WHERE document_type IS NOT NULL
         GROUP BY document_type
         ORDER BY count DESC
       `);
@@ -595,10 +1476,33 @@ export class ReceiptProcessor {
       
       const recentErrors = errorsStmt.all() as any[];
       
+      // Receipt quality by text extraction method, to compare e.g. plain and layout text
+      const methodStmt = this.db.getDb().prepare(`
+        SELECT
+          COALESCE(extraction_method, 'text_layer') as method,
+          COUNT(*) as receipts,
+          AVG(llm_confidence) as avgConfidence,
+          SUM(CASE WHEN llm_extraction_issues IS NOT NULL AND llm_extraction_issues != '[]' THEN 1 ELSE 0 END) as withIssues
+        FROM receipt_ledger
+        GROUP BY COALESCE(extraction_method, 'text_layer')
+        ORDER BY receipts DESC
+      `);
+      
+      const extractionMethods = methodStmt.all() as any[];
+      
+      // LLM response cache usage
+      const cache = LLMResponseCache.getInstance().getStats();
+      
+      // LLM token usage and estimated cost
+      const costs = LLMUsageLog.getInstance().getStats();
+      
       return {
         overall,
         stages: stageRows,
-        recentErrors
+        recentErrors,
+        extractionMethods,
+        cache,
+        costs
       };
     } catch (error) {
       console.error('Error getting processing stats:', error);
@@ -647,7 +1551,7 @@ export class ReceiptProcessor {
     // Build CSV content
     const csvContent = [
       headers.join(','),
-      ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+      ...rows.map(row => row.map(cell => `"${String(cell ?? '').replace(/"/g, '""')}"`).join(','))
     ].join('\n');
     
     return csvContent;
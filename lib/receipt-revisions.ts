@@ -0,0 +1,220 @@
+import { DatabaseManager } from './db';
+import { FieldConfidence, LineItem, ReceiptRevision, TextExtractionMethod } from '../types/receipt-types';
+
+/**
+ * Values of a new revision, as produced by a reprocess run
+ */
+export interface NewRevision {
+  ledgerId: number;
+  isReceipt: boolean;
+  documentType?: string;
+  merchantName?: string;
+  transactionDate?: string;
+  totalAmount?: number;
+  // Null when the receipt does not show them
+  taxAmount?: number | null;
+  subtotal?: number | null;
+  paymentMethod?: string | null;
+  lineItems?: LineItem[];
+  llmConfidence?: number;
+  llmExtractionIssues?: string[];
+  promptVersion?: string;
+  fieldConfidence?: FieldConfidence;
+  model?: string;
+  rawText?: string;
+  extractionMethod?: TextExtractionMethod;
+  ocrConfidence?: number;
+  jobId?: number;
+}
+
+// Columns a revision shares with receipt_ledger, copied in both directions
+const RECEIPT_COLUMNS = [
+  'merchant_name', 'transaction_date', 'total_amount', 'tax_amount', 'subtotal', 'payment_method',
+  'line_items', 'llm_confidence', 'llm_extraction_issues', 'prompt_version', 'field_confidence'
+];
+
+// Columns describing the text; only copied to the ledger when the revision re-extracted it
+const TEXT_COLUMNS = ['raw_text', 'extraction_method', 'ocr_confidence'];
+
+/**
+ * Reprocessing results for ledger receipts. A reprocess never overwrites a
+ * ledger row: its result is stored here as a pending revision, and only
+ * replaces the row's values when the user accepts it. The values it
+ * replaces are kept as a superseded revision, so they can be restored.
+ */
+export class ReceiptRevisionStore {
+  private static instance: ReceiptRevisionStore;
+  private db: DatabaseManager;
+
+  private constructor() {
+    this.db = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): ReceiptRevisionStore {
+    if (!ReceiptRevisionStore.instance) {
+      ReceiptRevisionStore.instance = new ReceiptRevisionStore();
+    }
+    return ReceiptRevisionStore.instance;
+  }
+
+  /**
+   * Store the result of a reprocess run as a pending revision
+   * @returns number - The revision id
+   */
+  create(revision: NewRevision): number {
+    const result = this.db.getDb().prepare(`
+      INSERT INTO receipt_revisions (
+        ledger_id, status, is_receipt, document_type,
+        merchant_name, transaction_date, total_amount, tax_amount, subtotal, payment_method,
+        line_items, llm_confidence, llm_extraction_issues, prompt_version, field_confidence,
+        model, raw_text, extraction_method, ocr_confidence, job_id, created_at
+      ) VALUES (?, 'pending', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+    `).run(
+      revision.ledgerId,
+      revision.isReceipt ? 1 : 0,
+      revision.documentType ?? null,
+      revision.merchantName ?? null,
+      revision.transactionDate ?? null,
+      revision.totalAmount ?? null,
+      revision.taxAmount ?? null,
+      revision.subtotal ?? null,
+      revision.paymentMethod ?? null,
+      JSON.stringify(revision.lineItems || []),
+      revision.llmConfidence ?? null,
+      JSON.stringify(revision.llmExtractionIssues || []),
+      revision.promptVersion ?? null,
+      revision.fieldConfidence ? JSON.stringify(revision.fieldConfidence) : null,
+      revision.model ?? null,
+      revision.rawText ?? null,
+      revision.extractionMethod ?? null,
+      revision.ocrConfidence ?? null,
+      revision.jobId ?? null
+    );
+
+    return Number(result.lastInsertRowid);
+  }
+
+  get(id: number): ReceiptRevision | null {
+    const row = this.db.getDb().prepare('SELECT * FROM receipt_revisions WHERE id = ?').get(id);
+    return row ? this.mapRow(row) : null;
+  }
+
+  /**
+   * Revisions of a ledger receipt, newest first
+   */
+  list(ledgerId: number): ReceiptRevision[] {
+    const rows = this.db.getDb().prepare(`
+      SELECT * FROM receipt_revisions WHERE ledger_id = ? ORDER BY created_at DESC, id DESC
+    `).all(ledgerId) as any[];
+    return rows.map(row => this.mapRow(row));
+  }
+
+  /**
+   * Replace the ledger row's values with a revision's. The replaced values
+   * become a superseded revision, and the receipt's other pending revisions
+   * are rejected.
+   */
+  accept(id: number): ReceiptRevision {
+    const db = this.db.getDb();
+    return db.transaction(() => {
+      const revision = this.get(id);
+      if (!revision) {
+        throw new Error(`Revision ${id} not found`);
+      }
+      if (revision.status === 'accepted') {
+        return revision;
+      }
+      if (!revision.isReceipt) {
+        throw new Error('The revision does not classify the document as a receipt');
+      }
+
+      // The current values are either an earlier accepted revision or the
+      // original extraction, which is snapshotted on its first replacement
+      const current = db.prepare(`
+        UPDATE receipt_revisions SET status = 'superseded', decided_at = datetime('now')
+        WHERE ledger_id = ? AND status = 'accepted'
+      `).run(revision.ledgerId);
+
+      if (current.changes === 0) {
+        const snapshot = db.prepare(`
+          INSERT INTO receipt_revisions (
+            ledger_id, status, is_receipt, ${RECEIPT_COLUMNS.join(', ')}, ${TEXT_COLUMNS.join(', ')},
+            created_at, decided_at
+          )
+          SELECT id, 'superseded', 1, ${RECEIPT_COLUMNS.join(', ')}, ${TEXT_COLUMNS.join(', ')},
+            created_at, datetime('now')
+          FROM receipt_ledger WHERE id = ?
+        `).run(revision.ledgerId);
+
+        if (snapshot.changes === 0) {
+          throw new Error(`Receipt ${revision.ledgerId} not found`);
+        }
+      }
+
+      const columns = revision.rawText !== undefined ? [...RECEIPT_COLUMNS, ...TEXT_COLUMNS] : RECEIPT_COLUMNS;
+      db.prepare(`
+        UPDATE receipt_ledger
+        SET ${columns.map(column => `${column} = (SELECT ${column} FROM receipt_revisions WHERE id = ?)`).join(', ')}
+        WHERE id = ?
+      `).run(...columns.map(() => id), revision.ledgerId);
+
+      db.prepare(`
+        UPDATE receipt_revisions SET status = 'rejected', decided_at = datetime('now')
+        WHERE ledger_id = ? AND status = 'pending' AND id != ?
+      `).run(revision.ledgerId, id);
+
+      db.prepare(`
+        UPDATE receipt_revisions SET status = 'accepted', decided_at = datetime('now') WHERE id = ?
+      `).run(id);
+
+      return this.get(id) as ReceiptRevision;
+    })();
+  }
+
+  /**
+   * Keep the ledger row's current values over a pending revision
+   */
+  reject(id: number): ReceiptRevision {
+    const revision = this.get(id);
+    if (!revision) {
+      throw new Error(`Revision ${id} not found`);
+    }
+    if (revision.status !== 'pending') {
+      throw new Error(`Revision ${id} is already ${revision.status}`);
+    }
+
+    this.db.getDb().prepare(`
+      UPDATE receipt_revisions SET status = 'rejected', decided_at = datetime('now') WHERE id = ?
+    `).run(id);
+
+    return { ...revision, status: 'rejected' };
+  }
+
+  private mapRow(row: any): ReceiptRevision {
+    return {
+      id: row.id,
+      ledgerId: row.ledger_id,
+      status: row.status,
+      isReceipt: row.is_receipt === 1,
+      documentType: row.document_type ?? undefined,
+      merchantName: row.merchant_name ?? undefined,
+      transactionDate: row.transaction_date ?? undefined,
+      totalAmount: row.total_amount ?? undefined,
+      taxAmount: row.tax_amount ?? undefined,
+      subtotal: row.subtotal ?? undefined,
+      paymentMethod: row.payment_method ?? undefined,
+      lineItems: JSON.parse(row.line_items || '[]'),
+      llmConfidence: row.llm_confidence ?? undefined,
+      llmExtractionIssues: JSON.parse(row.llm_extraction_issues || '[]'),
+      promptVersion: row.prompt_version ?? undefined,
+      fieldConfidence: row.field_confidence ? JSON.parse(row.field_confidence) : undefined,
+      model: row.model ?? undefined,
+      rawText: row.raw_text ?? undefined,
+      extractionMethod: row.extraction_method ?? undefined,
+      ocrConfidence: row.ocr_confidence ?? undefined,
+      jobId: row.job_id ?? undefined,
+      createdAt: row.created_at,
+      decidedAt: row.decided_at ?? undefined
+    };
+  }
+}
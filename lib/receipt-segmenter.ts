@@ -0,0 +1,122 @@
+/**
+ * One receipt found inside a multi-receipt document
+ */
+export interface ReceiptSegment {
+  index: number;
+  count: number;
+  // 1-based, inclusive page range; both ends are equal for receipts split on one page
+  startPage: number;
+  endPage: number;
+  // Raw text of the segment, one entry per page it covers
+  pages: string[];
+}
+
+interface SegmentUnit {
+  page: number;
+  text: string;
+  // True when the unit follows a separator line rather than a page break
+  afterSeparator: boolean;
+}
+
+// A line made only of a repeated rule character, e.g. "----------" or "=========="
+const SEPARATOR_LINE = /^[ \t]*([-=_*~#])\1{9,}[ \t]*$/m;
+
+// A line with a grand total and an amount. "Subtotal" does not count, and
+// neither do payment lines ("Amount paid", "Total charged", "Total tendered"),
+// which follow the total of the same receipt.
+const TOTAL_LINE = /\b(?:grand\s+total|total(?!\s+(?:paid|charged|tendered)\b)(?:\s+(?:due|amount))?|amount\s+due|balance\s+due)\b[^\n]*\d/i;
+
+// Words that typically open a receipt or invoice
+const RECEIPT_HEADER = /\b(?:receipt|invoice|order\s*(?:#|no\.?|number|id)|bill\s+to|sold\s+to|transaction\s+(?:id|date)|date\s*:)/i;
+
+const FIRST_PAGE_MARKER = /\bpage\s+1\s+of\s+\d+\b/i;
+const LATER_PAGE_MARKER = /\bpage\s+([2-9]|\d{2,})\s+of\s+\d+\b/i;
+
+// Lines at the top of a unit that are checked for a receipt header
+const HEADER_LINES = 8;
+
+/**
+ * Splits documents that hold several receipts (expense reports, monthly
+ * order statements) into one segment per receipt. A new receipt starts at a
+ * page break or separator line once the current receipt has shown its total
+ * and the next part looks like the start of another receipt.
+ */
+export class ReceiptSegmenter {
+  /**
+   * Whether segmentation is enabled (RECEIPT_SEGMENTATION, 'auto' by default; 'off' disables it)
+   */
+  static isEnabled(): boolean {
+    return (process.env.RECEIPT_SEGMENTATION || 'auto').toLowerCase() !== 'off';
+  }
+
+  /**
+   * Find the receipt boundaries in a document
+   * @param pages - Raw text of each page, with line breaks intact
+   * @returns ReceiptSegment[] - One segment per receipt, in page order
+   */
+  static segment(pages: string[]): ReceiptSegment[] {
+    const units = ReceiptSegmenter.splitUnits(pages);
+    const groups: SegmentUnit[][] = [];
+
+    for (const unit of units) {
+      const current = groups[groups.length - 1];
+      if (!current || ReceiptSegmenter.startsNewReceipt(current, unit)) {
+        groups.push([unit]);
+      } else {
+        current.push(unit);
+      }
+    }
+
+    return groups.map((group, index) => {
+      const startPage = group[0].page;
+      const endPage = group[group.length - 1].page;
+      const segmentPages: string[] = [];
+      for (let page = startPage; page <= endPage; page++) {
+        segmentPages.push(
+          group.filter(unit => unit.page === page).map(unit => unit.text).join('\n')
+        );
+      }
+
+      return { index, count: groups.length, startPage, endPage, pages: segmentPages };
+    });
+  }
+
+  /**
+   * Split pages into units at separator lines, dropping empty pieces
+   */
+  private static splitUnits(pages: string[]): SegmentUnit[] {
+    const units: SegmentUnit[] = [];
+    const separators = new RegExp(SEPARATOR_LINE.source, 'gm');
+
+    pages.forEach((pageText, index) => {
+      (pageText || '').split(separators)
+        // split() also returns the captured rule character between pieces
+        .filter((piece, pieceIndex) => pieceIndex % 2 === 0)
+        .forEach((piece, pieceIndex) => {
+          if (!piece.trim()) return;
+          units.push({ page: index + 1, text: piece.trim(), afterSeparator: pieceIndex > 0 });
+        });
+    });
+
+    return units;
+  }
+
+  /**
+   * Decide whether a unit opens a new receipt after the units collected so far
+   */
+  private static startsNewReceipt(current: SegmentUnit[], unit: SegmentUnit): boolean {
+    if (LATER_PAGE_MARKER.test(unit.text)) return false;
+
+    // "Page 1 of N" always opens a new document
+    if (!unit.afterSeparator && FIRST_PAGE_MARKER.test(unit.text)) return true;
+
+    const currentHasTotal = current.some(part => TOTAL_LINE.test(part.text));
+    if (!currentHasTotal || !TOTAL_LINE.test(unit.text)) return false;
+
+    // Page breaks and separators also appear inside a single receipt, so
+    // they only split when both sides are complete receipts and the new
+    // part opens like a receipt.
+    const header = unit.text.split('\n').slice(0, HEADER_LINES).join('\n');
+    return RECEIPT_HEADER.test(header);
+  }
+}
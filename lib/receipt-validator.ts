@@ -0,0 +1,101 @@
+import { amountsMatch, roundCurrency, sumLineItems } from './receipt-math';
+import { LLMExtractionResult } from '../types/receipt-types';
+
+export interface ReceiptValidationResult {
+  valid: boolean;
+  issues: string[];
+  // Extraction confidence after deducting the penalty for each failed check
+  adjustedConfidence: number;
+}
+
+// Confidence deducted for each failed arithmetic or date check
+const ISSUE_PENALTY = 15;
+
+// Receipts older than this are flagged as implausible
+const MAX_RECEIPT_AGE_YEARS = parseInt(process.env.RECEIPT_MAX_AGE_YEARS || '10', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ReceiptValidator {
+  /**
+   * Run arithmetic and date plausibility checks on an extraction result
+   * @param result - The validated LLM extraction
+   * @param now - Reference time for the date checks
+   * @returns ReceiptValidationResult with any issues found
+   */
+  static validate(result: LLMExtractionResult, now: Date = new Date()): ReceiptValidationResult {
+    const issues = [
+      ...ReceiptValidator.checkLineItems(result),
+      ...ReceiptValidator.checkTotals(result),
+      ...ReceiptValidator.checkDate(result.transactionDate, now)
+    ];
+
+    return {
+      valid: issues.length === 0,
+      issues,
+      adjustedConfidence: Math.max(0, result.confidence - issues.length * ISSUE_PENALTY)
+    };
+  }
+
+  /**
+   * Line items (price × quantity) should add up to the subtotal, or to
+   * total minus tax when the receipt shows no subtotal
+   */
+  static checkLineItems({ lineItems = [], subtotal, totalAmount, taxAmount }: LLMExtractionResult): string[] {
+    if (lineItems.length === 0) return [];
+
+    const itemsTotal = sumLineItems(lineItems);
+
+    if (subtotal !== undefined) {
+      return amountsMatch(itemsTotal, subtotal)
+        ? []
+        : [`Line items sum to ${itemsTotal.toFixed(2)} but the subtotal is ${subtotal.toFixed(2)}`];
+    }
+
+    if (totalAmount !== undefined) {
+      const expected = roundCurrency(totalAmount - (taxAmount ?? 0));
+      return amountsMatch(itemsTotal, expected)
+        ? []
+        : [`Line items sum to ${itemsTotal.toFixed(2)} but total minus tax is ${expected.toFixed(2)}`];
+    }
+
+    return [];
+  }
+
+  /**
+   * Subtotal plus tax should equal the total
+   */
+  static checkTotals({ subtotal, taxAmount, totalAmount }: LLMExtractionResult): string[] {
+    if (subtotal === undefined || totalAmount === undefined) return [];
+
+    const expected = roundCurrency(subtotal + (taxAmount ?? 0));
+    return amountsMatch(totalAmount, expected)
+      ? []
+      : [`Subtotal ${subtotal.toFixed(2)} plus tax ${(taxAmount ?? 0).toFixed(2)} is ${expected.toFixed(2)} but the total is ${totalAmount.toFixed(2)}`];
+  }
+
+  /**
+   * The transaction date must not be in the future or implausibly old
+   */
+  static checkDate(transactionDate: string | undefined, now: Date = new Date()): string[] {
+    if (!transactionDate) return ['Transaction date is missing'];
+
+    const date = new Date(`${transactionDate}T00:00:00Z`);
+    if (isNaN(date.getTime())) {
+      return [`Transaction date ${transactionDate} is not a valid date`];
+    }
+
+    // Allow a day of slack for time zones
+    if (date.getTime() > now.getTime() + DAY_MS) {
+      return [`Transaction date ${transactionDate} is in the future`];
+    }
+
+    const oldest = new Date(now);
+    oldest.setUTCFullYear(oldest.getUTCFullYear() - MAX_RECEIPT_AGE_YEARS);
+    if (date < oldest) {
+      return [`Transaction date ${transactionDate} is more than ${MAX_RECEIPT_AGE_YEARS} years old`];
+    }
+
+    return [];
+  }
+}
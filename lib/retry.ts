@@ -0,0 +1,81 @@
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Decide whether an error is worth retrying (defaults to isRetryableHttpError)
+  shouldRetry?: (error: any) => boolean;
+  onRetry?: (error: any, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '4', 10),
+  baseDelayMs: 500,
+  maxDelayMs: 30000
+};
+
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'EPIPE'];
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Rate limits (429), server errors (5xx) and transient network failures are retryable
+ */
+export function isRetryableHttpError(error: any): boolean {
+  const status = error?.response?.status;
+  if (typeof status === 'number') {
+    return status === 429 || status === 408 || status >= 500;
+  }
+  return RETRYABLE_NETWORK_CODES.includes(error?.code);
+}
+
+/**
+ * Read a Retry-After header (delta-seconds or HTTP date) from an HTTP error, in ms
+ */
+export function getRetryAfterMs(error: any): number | null {
+  const headers = error?.response?.headers;
+  const value = headers && (typeof headers.get === 'function' ? headers.get('retry-after') : headers['retry-after']);
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter. A Retry-After from the server is a
+ * lower bound on the wait.
+ */
+export function computeBackoffDelay(attempt: number, options: RetryOptions, retryAfterMs: number | null = null): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt - 1));
+  const jittered = Math.random() * exponential;
+  return retryAfterMs !== null ? Math.max(retryAfterMs, jittered) : jittered;
+}
+
+/**
+ * Run an async operation, retrying retryable failures with backoff.
+ * The last error is rethrown once retries are exhausted.
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> {
+  const config: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const shouldRetry = config.shouldRetry || isRetryableHttpError;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt > config.maxRetries || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const delayMs = computeBackoffDelay(attempt, config, getRetryAfterMs(error));
+      config.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
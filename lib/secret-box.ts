@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const PAYLOAD_VERSION = 'v1';
+// Fixed salt: the key only has to be stable for one SETTINGS_ENCRYPTION_KEY
+const KEY_SALT = 'receipt-settings';
+
+let cachedKey: { secret: string; key: Buffer } | null = null;
+
+/**
+ * Authenticated encryption for secrets kept in the settings tables (PDF
+ * passwords, OAuth tokens). Payloads are "v1:<iv>:<tag>:<ciphertext>" in
+ * base64, encrypted with AES-256-GCM under a key derived from
+ * SETTINGS_ENCRYPTION_KEY.
+ */
+export class SecretBox {
+  /**
+   * Whether SETTINGS_ENCRYPTION_KEY is set
+   */
+  static isConfigured(): boolean {
+    return !!process.env.SETTINGS_ENCRYPTION_KEY;
+  }
+
+  /**
+   * Encrypt a secret for storage
+   * @throws Error when SETTINGS_ENCRYPTION_KEY is not set
+   */
+  static encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, SecretBox.getKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [
+      PAYLOAD_VERSION,
+      iv.toString('base64'),
+      cipher.getAuthTag().toString('base64'),
+      ciphertext.toString('base64')
+    ].join(':');
+  }
+
+  /**
+   * Decrypt a payload produced by encrypt()
+   * @throws Error when the key is missing or wrong, or the payload was tampered with
+   */
+  static decrypt(payload: string): string {
+    const [version, iv, tag, ciphertext] = payload.split(':');
+    if (version !== PAYLOAD_VERSION || !iv || !tag || ciphertext === undefined) {
+      throw new Error('Unrecognised encrypted payload');
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, SecretBox.getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final()
+    ]).toString('utf8');
+  }
+
+  private static getKey(): Buffer {
+    const secret = process.env.SETTINGS_ENCRYPTION_KEY;
+    if (!secret) {
+      throw new Error('SETTINGS_ENCRYPTION_KEY must be set to store encrypted settings');
+    }
+
+    if (!cachedKey || cachedKey.secret !== secret) {
+      cachedKey = { secret, key: crypto.scryptSync(secret, KEY_SALT, 32) };
+    }
+    return cachedKey.key;
+  }
+}
@@ -0,0 +1,196 @@
+import { LLMCallOptions, LLMProvider } from './llm-provider';
+import { roundCurrency } from './receipt-math';
+import { ConfidenceField, FieldConfidence, LLMExtractionResult } from '../types/receipt-types';
+
+export const CONFIDENCE_FIELDS: ConfidenceField[] = [
+  'merchantName',
+  'transactionDate',
+  'totalAmount',
+  'taxAmount',
+  'paymentMethod'
+];
+
+const FIELD_LABELS: Record<ConfidenceField, string> = {
+  merchantName: 'merchant',
+  transactionDate: 'date',
+  totalAmount: 'total',
+  taxAmount: 'tax',
+  paymentMethod: 'payment method'
+};
+
+// Temperature used for repeated runs so that they can actually disagree
+const DEFAULT_SAMPLING_TEMPERATURE = 0.7;
+
+interface FieldVote {
+  key: string;
+  value: LLMExtractionResult[ConfidenceField];
+  votes: number;
+}
+
+/**
+ * Comparison key for a field value: names are compared without case or
+ * punctuation and amounts to the cent. Missing values vote as ''.
+ */
+function voteKey(field: ConfidenceField, value: LLMExtractionResult[ConfidenceField]): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return roundCurrency(value).toFixed(2);
+
+  switch (field) {
+    case 'merchantName':
+    case 'paymentMethod':
+      return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+    default:
+      return value.trim();
+  }
+}
+
+/**
+ * Self-consistency extraction: the same receipt is extracted several times,
+ * round-robin across one or more providers, and each header field is decided
+ * by majority vote. The share of runs agreeing with the chosen value becomes
+ * that field's confidence. Only used for single-pass extraction; chunked
+ * documents keep their map-reduce result.
+ */
+export class SelfConsistencyExtractor {
+  private providers: LLMProvider[];
+  private runs: number;
+  private temperature: number;
+
+  constructor(
+    providers: LLMProvider[],
+    runs: number = providers.length,
+    temperature: number = DEFAULT_SAMPLING_TEMPERATURE
+  ) {
+    if (providers.length === 0) {
+      throw new Error('Self-consistency extraction needs at least one provider');
+    }
+    this.providers = providers;
+    // Every provider gets at least one run
+    this.runs = Math.max(runs, providers.length);
+    this.temperature = temperature;
+  }
+
+  /**
+   * Number of extraction runs from EXTRACTION_CONSISTENCY_RUNS (defaults to 1, i.e. off)
+   */
+  static getRuns(env: NodeJS.ProcessEnv = process.env): number {
+    const runs = parseInt(env.EXTRACTION_CONSISTENCY_RUNS || '1', 10);
+    return isNaN(runs) || runs < 1 ? 1 : runs;
+  }
+
+  /**
+   * Sampling temperature for repeated runs from EXTRACTION_CONSISTENCY_TEMPERATURE
+   */
+  static getTemperature(env: NodeJS.ProcessEnv = process.env): number {
+    const temperature = parseFloat(env.EXTRACTION_CONSISTENCY_TEMPERATURE || '');
+    return isNaN(temperature) ? DEFAULT_SAMPLING_TEMPERATURE : temperature;
+  }
+
+  /**
+   * Voting only makes sense with more than one run
+   */
+  isEnabled(): boolean {
+    return this.runs > 1;
+  }
+
+  /**
+   * Run every extraction and vote on the results. Failed runs count as
+   * disagreeing with every field; the extraction only fails when all runs do.
+   */
+  async extract(text: string, options: LLMCallOptions = {}): Promise<LLMExtractionResult> {
+    const runs = Array.from({ length: this.runs }, (_, index) => {
+      const provider = this.providers[index % this.providers.length];
+      // The first run of each provider is the regular, cacheable extraction
+      const isRepeat = index >= this.providers.length;
+      return provider.extractReceiptData(
+        text,
+        isRepeat ? { ...options, temperature: this.temperature, skipCache: true } : options
+      );
+    });
+
+    const settled = await Promise.allSettled(runs);
+    const results: LLMExtractionResult[] = [];
+    let firstError: unknown;
+
+    settled.forEach(outcome => {
+      if (outcome.status === 'fulfilled') {
+        results.push(outcome.value);
+      } else if (firstError === undefined) {
+        firstError = outcome.reason;
+      }
+    });
+
+    if (results.length === 0) {
+      throw firstError;
+    }
+
+    return this.vote(results, this.runs);
+  }
+
+  /**
+   * Combine run results by majority vote per field. Ties go to the earliest
+   * run, so the primary provider wins a split between two providers.
+   * @param results - Successful extraction results, in run order
+   * @param runCount - Number of runs attempted, including failed ones
+   */
+  vote(results: LLMExtractionResult[], runCount: number = results.length): LLMExtractionResult {
+    const winners = {} as Record<ConfidenceField, FieldVote>;
+    const fieldConfidence = {} as FieldConfidence;
+    const issues: string[] = [];
+
+    for (const field of CONFIDENCE_FIELDS) {
+      const tally: FieldVote[] = [];
+      for (const result of results) {
+        const key = voteKey(field, result[field]);
+        const existing = tally.find(vote => vote.key === key);
+        if (existing) {
+          existing.votes++;
+        } else {
+          tally.push({ key, value: result[field], votes: 1 });
+        }
+      }
+
+      // Stable sort keeps the earliest run first among equal vote counts
+      const ranked = tally
+        .map((vote, order) => ({ vote, order }))
+        .sort((a, b) => b.vote.votes - a.vote.votes || a.order - b.order)
+        .map(({ vote }) => vote);
+
+      winners[field] = ranked[0];
+      fieldConfidence[field] = Math.round((ranked[0].votes / runCount) * 100);
+
+      if (ranked.length > 1) {
+        const options = ranked
+          .map(vote => `${vote.key === '' ? 'none' : `"${vote.value}"`} (${vote.votes}/${runCount})`)
+          .join(', ');
+        issues.push(`Extraction runs disagree on ${FIELD_LABELS[field]}: ${options}`);
+      }
+    }
+
+    // Line items and subtotal come from the run that agrees with the most winners
+    const agreement = (result: LLMExtractionResult) =>
+      CONFIDENCE_FIELDS.filter(field => voteKey(field, result[field]) === winners[field].key).length;
+    const base = results.reduce((best, result) => (agreement(result) > agreement(best) ? result : best));
+
+    const failedRuns = runCount - results.length;
+    if (failedRuns > 0) {
+      issues.push(`${failedRuns} of ${runCount} extraction runs failed`);
+    }
+
+    const meanAgreement = CONFIDENCE_FIELDS.reduce((sum, field) => sum + fieldConfidence[field], 0) / CONFIDENCE_FIELDS.length;
+
+    return {
+      ...base,
+      // Every run passed schema validation, so required fields always have a value
+      merchantName: winners.merchantName.value as string,
+      transactionDate: winners.transactionDate.value as string,
+      totalAmount: winners.totalAmount.value as number,
+      taxAmount: winners.taxAmount.value as number | undefined,
+      paymentMethod: winners.paymentMethod.value as string | undefined,
+      // The model's own confidence, capped by how much the runs agree
+      confidence: Math.round(Math.min(base.confidence, meanAgreement)),
+      extractionIssues: [...base.extractionIssues, ...issues],
+      fieldConfidence
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import { GmailClientFactory } from './gmail-notifications';
+import { createGmailClient, MailboxCredentialStore } from './mailbox-credentials';
+import { MailboxSyncStateStore } from './mailbox-sync-state';
+import { getWatchedLabelIds, MailboxWatchSettingsStore } from './mailbox-watch-settings';
+
+// Longest wait between checks, so watches created by other processes are picked up
+const MAX_IDLE_WAIT_MS = 60 * 60 * 1000;
+// Longest wait between retries of a failing renewal
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export interface WatchRenewalResult {
+  account: string;
+  renewed: boolean;
+  expiration?: number;
+  error?: string;
+}
+
+/**
+ * Renews each account's Gmail watch before it lapses (Gmail watches last
+ * about seven days). Due watches are renewed with the account's stored
+ * credentials; a failed renewal is retried with exponential backoff while
+ * the current watch lasts, and after it has lapsed. The scheduler sleeps
+ * until the next watch is due.
+ *
+ * Environment:
+ *   WATCH_RENEWAL_LEAD_HOURS           renew this long before expiry (default: 24)
+ *   WATCH_RENEWAL_RETRY_BASE_SECONDS   first retry delay, doubled per failure (default: 300)
+ */
+export class WatchRenewalScheduler {
+  private static instance: WatchRenewalScheduler;
+  private createClient: GmailClientFactory;
+  private syncState: MailboxSyncStateStore;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(createClient?: GmailClientFactory) {
+    this.createClient = createClient || createGmailClient;
+    this.syncState = MailboxSyncStateStore.getInstance();
+  }
+
+  public static getInstance(): WatchRenewalScheduler {
+    if (!WatchRenewalScheduler.instance) {
+      WatchRenewalScheduler.instance = new WatchRenewalScheduler();
+    }
+    return WatchRenewalScheduler.instance;
+  }
+
+  /**
+   * How long before its expiry a watch is renewed, in milliseconds
+   */
+  static getLeadMs(): number {
+    const hours = parseFloat(process.env.WATCH_RENEWAL_LEAD_HOURS || '');
+    return (hours >= 0 ? hours : 24) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Delay before retrying a renewal that has failed this many times in a row
+   */
+  static getRetryDelayMs(failures: number): number {
+    const baseSeconds = parseInt(process.env.WATCH_RENEWAL_RETRY_BASE_SECONDS || '300', 10) || 300;
+    return Math.min(baseSeconds * 1000 * Math.pow(2, Math.max(0, failures - 1)), MAX_RETRY_DELAY_MS);
+  }
+
+  /**
+   * Start checking for due watches, or reschedule the next check after a
+   * watch was created or stopped
+   */
+  start(): void {
+    if (this.running) return;
+    this.schedule(0);
+  }
+
+  /**
+   * Renew every due watch
+   */
+  async renewDueWatches(): Promise<WatchRenewalResult[]> {
+    const now = Date.now();
+    const due = this.syncState.listWatchesDue(now + WatchRenewalScheduler.getLeadMs(), now);
+
+    const results: WatchRenewalResult[] = [];
+    for (const state of due) {
+      results.push(await this.renew(state.account, state.watchRenewalFailures));
+    }
+    return results;
+  }
+
+  /**
+   * Renew one account's watch, recording the result on its sync state
+   * @param failures - Consecutive failed renewals so far, for the backoff
+   */
+  async renew(account: string, failures = 0): Promise<WatchRenewalResult> {
+    try {
+      const credentials = MailboxCredentialStore.getInstance().get(account);
+      if (!credentials) {
+        throw new Error('No stored credentials; sign in again to renew the watch');
+      }
+      // Without a refresh token the stored access token only lasts about an hour
+      if (!credentials.refreshToken && credentials.accessTokenExpiresAt !== null && credentials.accessTokenExpiresAt <= Date.now()) {
+        throw new Error('The stored access token has expired and there is no refresh token; sign in again to renew the watch');
+      }
+
+      const labelIds = getWatchedLabelIds(MailboxWatchSettingsStore.getInstance().get(account));
+      const watchResponse = await this.createClient(credentials).setupWatch(labelIds);
+      const expiration = watchResponse.expiration ? Number(watchResponse.expiration) : null;
+      this.syncState.recordWatch(account, String(watchResponse.historyId), expiration);
+
+      console.log(`Renewed Gmail watch of ${account}, expires ${expiration ? new Date(expiration).toISOString() : 'unknown'}`);
+      return { account, renewed: true, expiration: expiration ?? undefined };
+    } catch (error: any) {
+      const message = error?.response?.data?.error?.message || (error instanceof Error ? error.message : String(error));
+      const retryAt = Date.now() + WatchRenewalScheduler.getRetryDelayMs(failures + 1);
+      this.syncState.recordWatchRenewalFailure(account, message, retryAt);
+
+      console.error(`Failed to renew Gmail watch of ${account} (attempt ${failures + 1}), retrying at ${new Date(retryAt).toISOString()}:`, message);
+      return { account, renewed: false, error: message };
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.tick();
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  private async tick(): Promise<void> {
+    this.running = true;
+    let delay = MAX_IDLE_WAIT_MS;
+    try {
+      await this.renewDueWatches();
+
+      const next = this.syncState.getNextWatchRenewalTime(WatchRenewalScheduler.getLeadMs());
+      if (next !== null) {
+        delay = Math.min(Math.max(next - Date.now(), 1000), MAX_IDLE_WAIT_MS);
+      }
+    } catch (error) {
+      console.error('Gmail watch renewal check failed:', error);
+    } finally {
+      this.running = false;
+      this.schedule(delay);
+    }
+  }
+}
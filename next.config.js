@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // instrumentation.ts starts the Gmail watch renewal scheduler
+    instrumentationHook: true,
+  },
 }
 
 module.exports = nextConfig
@@ -0,0 +1,69 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../auth/[...nextauth]';
+import { LLMResponseCache } from '../../../lib/llm-cache';
+
+type ResponseData = {
+  success: boolean;
+  data?: any;
+  removed?: number;
+  error?: string;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  // Check if user is authenticated
+  const session = await getServerSession(req, res, authOptions);
+  if (!session) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  // GET returns cache statistics, DELETE invalidates entries
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  try {
+    const cache = LLMResponseCache.getInstance();
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, data: cache.getStats() });
+    }
+
+    const { model, promptVersion, all } = req.query;
+
+    if (Array.isArray(model) || Array.isArray(promptVersion)) {
+      return res.status(400).json({
+        success: false,
+        error: 'model and promptVersion must be single values'
+      });
+    }
+
+    // Require an explicit filter so a bare DELETE cannot wipe the cache
+    if (!model && !promptVersion && all !== 'true') {
+      return res.status(400).json({
+        success: false,
+        error: 'Provide model and/or promptVersion, or all=true to clear the whole cache'
+      });
+    }
+
+    const removed = cache.invalidate({ model, promptVersion });
+    console.log(`Invalidated ${removed} LLM cache entries (model: ${model || '*'}, promptVersion: ${promptVersion || '*'})`);
+
+    return res.status(200).json({ success: true, removed });
+  } catch (error) {
+    console.error('Error managing LLM cache:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -1,5 +1,48 @@
 import NextAuth, { NextAuthOptions } from 'next-auth'
+import { JWT } from 'next-auth/jwt'
 import GoogleProvider from 'next-auth/providers/google'
+import { createGmailClient, MailboxCredentialStore } from '../../../lib/mailbox-credentials'
+import { SecretBox } from '../../../lib/secret-box'
+
+// Refresh the session's access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000
+
+/**
+ * Keep the signed-in account's tokens server side, so push notifications
+ * and background jobs can read the mailbox without a browser session
+ */
+function storeMailboxCredentials(email: string, accessToken: string, expiresAt: number | null, refreshToken?: string) {
+  if (!SecretBox.isConfigured()) {
+    console.warn('SETTINGS_ENCRYPTION_KEY is not set; push notifications cannot read the mailbox')
+    return
+  }
+
+  try {
+    MailboxCredentialStore.getInstance().save(email, accessToken, expiresAt, refreshToken)
+  } catch (error) {
+    console.error(`Error storing credentials for ${email}:`, error)
+  }
+}
+
+/**
+ * Replace the session's expired access token using the account's stored
+ * refresh token. The refresh token itself never goes into the session.
+ */
+async function refreshSessionAccessToken(token: JWT): Promise<JWT> {
+  try {
+    const credentials = token.email ? MailboxCredentialStore.getInstance().get(token.email) : null
+    if (!credentials?.refreshToken) {
+      return { ...token, error: 'RefreshAccessTokenError' }
+    }
+
+    // Another request or a background job may already have refreshed it
+    const { accessToken, expiresAt } = await createGmailClient(credentials).getAccessToken()
+    return { ...token, accessToken, accessTokenExpires: expiresAt ?? undefined, error: undefined }
+  } catch (error) {
+    console.error(`Error refreshing the access token of ${token.email}:`, error)
+    return { ...token, error: 'RefreshAccessTokenError' }
+  }
+}
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -9,8 +52,8 @@ export const authOptions: NextAuthOptions = {
       authorization: {
         params: {
           scope: 'openid email profile https://www.googleapis.com/auth/gmail.readonly https://www.googleapis.com/auth/gmail.modify https://www.googleapis.com/auth/pubsub',
-          access_type: 'online', // Forces 'online' access type, so no refresh token
-          prompt: 'consent',      // Forces consent screen to appear every time
+          access_type: 'offline', // Returns a refresh token, so the server can keep reading the mailbox
+          prompt: 'consent',      // Forces consent screen, so Google sends the refresh token on every sign-in
         },
       },
     }),
@@ -19,15 +62,24 @@ export const authOptions: NextAuthOptions = {
     async jwt({ token, account }) {
       if (account) {
         token.accessToken = account.access_token
-        token.refreshToken = account.refresh_token
         // Add an expiry time for the access token (typically 1 hour)
-        token.accessTokenExpires = Date.now() + (account.expires_in as number) * 1000
+        token.accessTokenExpires = account.expires_at ? account.expires_at * 1000 : undefined
+        token.error = undefined
+        
+        if (token.email && account.access_token) {
+          storeMailboxCredentials(token.email, account.access_token, token.accessTokenExpires ?? null, account.refresh_token)
+        }
+        return token
+      }
+      
+      if (!token.accessTokenExpires || Date.now() < token.accessTokenExpires - REFRESH_MARGIN_MS) {
+        return token
       }
-      return token
+      return refreshSessionAccessToken(token)
     },
     async session({ session, token }) {
       session.accessToken = token.accessToken
-      session.refreshToken = token.refreshToken
+      session.error = token.error
       return session
     },
   },
@@ -35,8 +87,8 @@ export const authOptions: NextAuthOptions = {
   session: {
     // Use JWT strategy for session management
     strategy: 'jwt',
-    // Set short session max age (e.g., 1 hour)
-    maxAge: 60 * 60 // 1 hour in seconds
+    // The access token inside is refreshed as it expires, so the session can outlive it
+    maxAge: 30 * 24 * 60 * 60 // 30 days in seconds
   },
   pages: {
     signIn: '/email-auth-flow/signin',
@@ -2,6 +2,7 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from './auth/[...nextauth]'
 import { GmailService } from '../../lib/gmail-service'
+import { resolveDocumentMimeType } from '../../lib/document-types'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -11,6 +12,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   // Get required query parameters
   const messageId = req.query.messageId as string
   const attachmentId = req.query.attachmentId as string
+  // Optional original filename, used for the download name and content type
+  const filename = (req.query.filename as string) || 'receipt.pdf'
   
   if (!messageId || !attachmentId) {
     return res.status(400).json({ 
@@ -27,10 +30,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
     
     // Create Gmail service with user's access token
-    const gmailService = new GmailService(
-      session.accessToken,
-      session.refreshToken as string
-    )
+    const gmailService = new GmailService(session.accessToken)
     
     // Get the attachment data
     const attachment = await gmailService.getAttachment(messageId, attachmentId)
@@ -42,12 +42,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Decode base64 data
     const buffer = Buffer.from(attachment.data, 'base64')
     
-    // Set appropriate headers for PDF download
-    res.setHeader('Content-Type', 'application/pdf')
-    res.setHeader('Content-Disposition', 'attachment; filename="receipt.pdf"')
+    // Set download headers for the PDF or image; the content type only ever
+    // comes from our list of supported documents
+    const contentType = resolveDocumentMimeType(undefined, filename) || 'application/octet-stream'
+    const safeFilename = filename.replace(/[^\x20-\x7E]|["\\]/g, '_')
+    res.setHeader('Content-Type', contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${safeFilename}"`)
     res.setHeader('Content-Length', buffer.length)
     
-    // Send the PDF data
+    // Send the attachment data
     res.send(buffer)
   } catch (error) {
     console.error('Error downloading attachment:', error)
@@ -23,10 +23,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     // Initialize Gmail service with user's access token
-    const gmailService = new GmailService(
-      session.accessToken,
-      session.refreshToken as string
-    )
+    const gmailService = new GmailService(session.accessToken)
     
     // Get the full message
     const message = await gmailService.getMessage(messageId)
@@ -41,21 +38,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const subject = headers.find((h: any) => h.name === 'Subject')?.value || 'No Subject'
     const date = headers.find((h: any) => h.name === 'Date')?.value || new Date().toISOString()
     
-    // Check if it has PDF attachments
-    const hasPdfAttachment = GmailService.hasPdfAttachment(message)
+    // Check if it has PDF or image attachments
+    const hasDocumentAttachment = GmailService.hasDocumentAttachment(message)
     
-    // Get attachment details
-    const attachments = GmailService.getAttachments(message)
+    // Get details of the PDF and image attachments
+    const documentAttachments = GmailService.getDocumentAttachments(message)
     
-    // Filter to only keep PDF attachments
-    const pdfAttachments = attachments.filter(
-      attachment => attachment.mimeType === 'application/pdf' || 
-                    attachment.filename.toLowerCase().endsWith('.pdf')
-    )
-    
-    // Only return emails with PDF attachments
-    if (!hasPdfAttachment) {
-      return res.status(200).json({ noPdfAttachment: true })
+    // Only return emails with document attachments
+    if (!hasDocumentAttachment) {
+      return res.status(200).json({ noDocumentAttachment: true })
     }
     
     // Return the processed email data
@@ -65,8 +56,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       subject,
       date: new Date(date).toISOString(),
       snippet: message.snippet,
-      hasPdfAttachment,
-      pdfAttachments: pdfAttachments.length > 0 ? pdfAttachments : undefined,
+      hasDocumentAttachment,
+      documentAttachments: documentAttachments.length > 0 ? documentAttachments : undefined,
       threadId: message.threadId,
       isNew: true
     })
@@ -3,6 +3,8 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from './auth/[...nextauth]'
 import { GmailService } from '../../lib/gmail-service'
+import { MailboxSync } from '../../lib/mailbox-sync'
+import { MailboxSyncStateStore } from '../../lib/mailbox-sync-state'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -16,27 +18,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(401).json({ message: 'Not authenticated' })
     }
 
-    const gmailService = new GmailService(
-      session.accessToken,
-      session.refreshToken as string
-    )
+    const gmailService = new GmailService(session.accessToken)
 
-    // Check for a historyId query parameter for using the push notification system
-    // This would be for manual testing or implementing continuity after webhook events
-    const historyId = req.query.historyId as string
-    
-    // If historyId is provided, fetch email changes since that ID
-    if (historyId) {
-      const history = await gmailService.getHistory(historyId)
-      if (history && history.length > 0) {
-        // Process the history changes
-        // This is similar to what would happen in the webhook
-        const emailDetails = await processHistoryChanges(gmailService, history)
-        return res.status(200).json(emailDetails)
+    // Accounts that are synced for push notifications catch up from their
+    // stored cursor here too, in case a notification was missed
+    const account = session.user?.email
+    if (account && MailboxSyncStateStore.getInstance().get(account)?.historyId) {
+      try {
+        await new MailboxSync().sync(account, gmailService)
+      } catch (error) {
+        // Recorded on the account's sync state; the listing below still works
+        console.error('Error syncing mailbox:', error)
       }
     }
 
-    // Default behavior - list recent messages
+    // List recent messages
     const oauth2Client = new google.auth.OAuth2()
     oauth2Client.setCredentials({
       access_token: session.accessToken,
@@ -70,17 +66,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         const subject = headers.find(h => h.name === 'Subject')?.value || 'No Subject'
         const date = headers.find(h => h.name === 'Date')?.value || new Date().toISOString()
         
-        // Check if this message has PDF attachments
-        const hasPdfAttachment = GmailService.hasPdfAttachment(msgDetail.data);
-        
-        // Get attachment details if there are any
-        const attachments = GmailService.getAttachments(msgDetail.data);
+        // Check if this message has PDF or image attachments
+        const hasDocumentAttachment = GmailService.hasDocumentAttachment(msgDetail.data);
         
-        // Filter to only keep PDF attachments
-        const pdfAttachments = attachments.filter(
-          attachment => attachment.mimeType === 'application/pdf' || 
-                        attachment.filename.toLowerCase().endsWith('.pdf')
-        );
+        // Get details of the PDF and image attachments
+        const documentAttachments = GmailService.getDocumentAttachments(msgDetail.data);
 
         return {
           id: message.id,
@@ -88,55 +78,19 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           subject,
           date: new Date(date).toISOString(),
           snippet: msgDetail.data.snippet,
-          hasPdfAttachment,
-          pdfAttachments: pdfAttachments.length > 0 ? pdfAttachments : undefined
+          hasDocumentAttachment,
+          documentAttachments: documentAttachments.length > 0 ? documentAttachments : undefined
         }
       })
     )
     
-    // Filter to only include messages with PDF attachments
-    const emailsWithPdfReceipts = allMessages.filter(email => email.hasPdfAttachment);
+    // Filter to only include messages with PDF or image attachments
+    const emailsWithReceipts = allMessages.filter(email => email.hasDocumentAttachment);
 
-    res.status(200).json(emailsWithPdfReceipts)
+    res.status(200).json(emailsWithReceipts)
   } catch (error) {
     console.error('Gmail API Error:', error)
     res.status(500).json({ message: 'Failed to fetch emails' })
   }
 }
 
-/**
- * Process history changes from Gmail API
- * This is used both in the webhook and when manually fetching history changes
- */
-async function processHistoryChanges(gmailService: GmailService, history: any[]) {
-  const emailDetails: any[] = []
-  
-  for (const change of history) {
-    // Check for new messages
-    if (change.messagesAdded) {
-      for (const messageAdded of change.messagesAdded) {
-        const messageId = messageAdded.message.id
-        const message = await gmailService.getMessage(messageId)
-        
-        if (message) {
-          const headers = message.payload?.headers || []
-          const from = headers.find((h: any) => h.name === 'From')?.value || 'Unknown'
-          const subject = headers.find((h: any) => h.name === 'Subject')?.value || 'No Subject'
-          const date = headers.find((h: any) => h.name === 'Date')?.value || new Date().toISOString()
-          
-          emailDetails.push({
-            id: message.id,
-            from,
-            subject,
-            date: new Date(date).toISOString(),
-            snippet: message.snippet,
-            historyId: message.historyId,
-            source: 'push_notification'
-          })
-        }
-      }
-    }
-  }
-  
-  return emailDetails
-}
@@ -0,0 +1,79 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../auth/[...nextauth]';
+import { JobQueue } from '../../../lib/job-queue';
+import { JobWorker } from '../../../lib/job-worker';
+
+type ResponseData = {
+  success: boolean;
+  data?: any;
+  error?: string;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  // Check if user is authenticated
+  const session = await getServerSession(req, res, authOptions);
+  if (!session) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  try {
+    const { id } = req.query;
+
+    if (!id || Array.isArray(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Valid ID parameter required'
+      });
+    }
+
+    const jobId = parseInt(id, 10);
+
+    if (isNaN(jobId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'ID must be a number'
+      });
+    }
+
+    const job = JobQueue.getInstance().getProgress(jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    // Pick up jobs left queued by a restart while someone is waiting on them
+    if (job.status === 'queued' || job.status === 'running') {
+      JobWorker.getInstance().start();
+    }
+
+    // The payload only holds the email id and blob hash, which are already on the job
+    const { payload, leaseOwner, ...progress } = job;
+
+    return res.status(200).json({ success: true, data: progress });
+
+  } catch (error) {
+    console.error('Error fetching job progress:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,103 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../auth/[...nextauth]';
+import { ReceiptProcessor } from '../../../../lib/receipt-processor';
+import { createBlobStore } from '../../../../lib/blob-store';
+import { resolveDocumentMimeType } from '../../../../lib/document-types';
+
+type ResponseData = {
+  success: boolean;
+  error?: string;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | Buffer>
+) {
+  // Check if user is authenticated
+  const session = await getServerSession(req, res, authOptions);
+  if (!session) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  try {
+    const { id, download } = req.query;
+
+    if (!id || Array.isArray(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Valid ID parameter required'
+      });
+    }
+
+    const receiptId = parseInt(id, 10);
+
+    if (isNaN(receiptId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'ID must be a number'
+      });
+    }
+
+    const receiptProcessor = new ReceiptProcessor();
+    const receipt = await receiptProcessor.getLedgerEntryById(receiptId);
+
+    if (!receipt) {
+      return res.status(404).json({
+        success: false,
+        error: 'Receipt not found'
+      });
+    }
+
+    if (!receipt.documentHash) {
+      return res.status(404).json({
+        success: false,
+        error: 'No original document stored for this receipt'
+      });
+    }
+
+    const data = await createBlobStore().get(receipt.documentHash);
+
+    if (!data) {
+      return res.status(404).json({
+        success: false,
+        error: 'Original document missing from storage'
+      });
+    }
+
+    // Serve only the document types we process, shown inline unless ?download=true
+    const contentType = resolveDocumentMimeType(receipt.documentMimeType, receipt.filename) || 'application/octet-stream';
+    const safeFilename = receipt.filename.replace(/[^\x20-\x7E]|["\\]/g, '_');
+    const disposition = download === 'true' ? 'attachment' : 'inline';
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `${disposition}; filename="${safeFilename}"; filename*=UTF-8''${encodeURIComponent(receipt.filename)}`
+    );
+    res.setHeader('Content-Length', data.length);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    // Blobs are content addressed, so a receipt's document never changes
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+
+    return res.status(200).send(data);
+
+  } catch (error) {
+    console.error('Error serving receipt document:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
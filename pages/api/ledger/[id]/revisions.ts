@@ -0,0 +1,123 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../auth/[...nextauth]';
+import { ReceiptProcessor } from '../../../../lib/receipt-processor';
+import { ReceiptRevisionStore } from '../../../../lib/receipt-revisions';
+
+type ResponseData = {
+  success: boolean;
+  data?: any;
+  error?: string;
+};
+
+/**
+ * GET lists a receipt's revisions. POST { revisionId, action } keeps a
+ * revision ('accept', replacing the receipt's values) or the current
+ * values ('reject').
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  // Check if user is authenticated
+  const session = await getServerSession(req, res, authOptions);
+  if (!session) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  try {
+    const { id } = req.query;
+
+    if (!id || Array.isArray(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Valid ID parameter required'
+      });
+    }
+
+    const receiptId = parseInt(id, 10);
+
+    if (isNaN(receiptId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'ID must be a number'
+      });
+    }
+
+    const receiptProcessor = new ReceiptProcessor();
+    const revisions = ReceiptRevisionStore.getInstance();
+
+    if (!(await receiptProcessor.getLedgerEntryById(receiptId))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Receipt not found'
+      });
+    }
+
+    if (req.method === 'POST') {
+      const { revisionId, action } = req.body || {};
+
+      if (action !== 'accept' && action !== 'reject') {
+        return res.status(400).json({
+          success: false,
+          error: "action must be 'accept' or 'reject'"
+        });
+      }
+
+      const revision = Number.isInteger(revisionId) ? revisions.get(revisionId) : null;
+
+      if (!revision || revision.ledgerId !== receiptId) {
+        return res.status(404).json({
+          success: false,
+          error: 'Revision not found'
+        });
+      }
+
+      if (action === 'accept' && !revision.isReceipt) {
+        return res.status(409).json({
+          success: false,
+          error: 'The revision does not classify the document as a receipt'
+        });
+      }
+
+      if (action === 'reject' && revision.status !== 'pending') {
+        return res.status(409).json({
+          success: false,
+          error: `Revision is already ${revision.status}`
+        });
+      }
+
+      if (action === 'accept') {
+        revisions.accept(revision.id);
+      } else {
+        revisions.reject(revision.id);
+      }
+    }
+
+    // The receipt as it is now, with all its revisions for the before/after view
+    return res.status(200).json({
+      success: true,
+      data: {
+        receipt: await receiptProcessor.getLedgerEntryById(receiptId),
+        revisions: revisions.list(receiptId)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error handling receipt revisions:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../auth/[...nextauth]';
+import { ReceiptProcessor } from '../../../lib/receipt-processor';
+import { EnqueuedJob, JobQueue } from '../../../lib/job-queue';
+import { JobWorker } from '../../../lib/job-worker';
+import { LedgerFilterOptions, ReprocessSource, TextLayoutMode } from '../../../types/receipt-types';
+
+// Most receipts one request may reprocess; every one costs LLM calls
+const MAX_REPROCESS_RECEIPTS = 500;
+
+type ResponseData = {
+  success: boolean;
+  message?: string;
+  jobs?: EnqueuedJob[];
+  error?: string;
+};
+
+/**
+ * Parse a number from the request body, ignoring empty values
+ */
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return isNaN(number) ? undefined : number;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  // Check if user is authenticated
+  const session = await getServerSession(req, res, authOptions);
+  if (!session) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  try {
+    // Receipts are chosen by id, by the ledger table's filters, by a
+    // confidence threshold, or any combination of them
+    const { ids, filters, belowConfidence, source = 'text', textLayout } = req.body || {};
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id: unknown) => !Number.isInteger(id)))) {
+      return res.status(400).json({
+        success: false,
+        error: 'ids must be an array of receipt ids'
+      });
+    }
+
+    if (ids === undefined && filters === undefined && belowConfidence === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'Select receipts with ids, filters or belowConfidence'
+      });
+    }
+
+    if (!['text', 'document'].includes(source)) {
+      return res.status(400).json({
+        success: false,
+        error: "source must be 'text' or 'document'"
+      });
+    }
+
+    if (textLayout !== undefined && !['plain', 'layout'].includes(textLayout)) {
+      return res.status(400).json({
+        success: false,
+        error: "textLayout must be 'plain' or 'layout'"
+      });
+    }
+
+    const selection: LedgerFilterOptions = {
+      ids,
+      belowConfidence: toNumber(belowConfidence)
+    };
+
+    if (filters) {
+      selection.searchTerm = filters.search || undefined;
+      selection.startDate = filters.startDate ? new Date(filters.startDate) : undefined;
+      selection.endDate = filters.endDate ? new Date(filters.endDate) : undefined;
+      selection.minAmount = toNumber(filters.minAmount);
+      selection.maxAmount = toNumber(filters.maxAmount);
+      selection.minConfidence = toNumber(filters.minConfidence);
+    }
+
+    const ledgerIds = new ReceiptProcessor().getLedgerIds(selection);
+
+    if (ledgerIds.length > MAX_REPROCESS_RECEIPTS) {
+      return res.status(400).json({
+        success: false,
+        error: `${ledgerIds.length} receipts selected; narrow the selection to at most ${MAX_REPROCESS_RECEIPTS}`
+      });
+    }
+
+    const jobs = JobQueue.getInstance().enqueueReprocess(ledgerIds, {
+      source: source as ReprocessSource,
+      textLayout: textLayout as TextLayoutMode | undefined
+    });
+
+    if (jobs.length > 0) {
+      JobWorker.getInstance().start();
+    }
+
+    // Results arrive as pending revisions; poll /api/jobs/[id] for progress
+    return res.status(202).json({
+      success: true,
+      message: `Reprocessing ${jobs.length} receipts`,
+      jobs
+    });
+
+  } catch (error) {
+    console.error('Error reprocessing receipts:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -1,31 +1,43 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from './auth/[...nextauth]';
-import { ReceiptProcessor } from '../../lib/receipt-processor';
-import { EmailData, PdfAttachment, ProcessingResult } from '../../types/receipt-types';
+import { EnqueuedJob, JobQueue } from '../../lib/job-queue';
+import { JobWorker } from '../../lib/job-worker';
+import { MailboxCredentialStore } from '../../lib/mailbox-credentials';
+import { EmailData, TextLayoutMode } from '../../types/receipt-types';
 
 type ResponseData = {
   success: boolean;
   message: string;
-  results?: ProcessingResult[];
+  jobs?: EnqueuedJob[];
   error?: string;
 };
 
 export const config = {
   api: {
     bodyParser: {
-      sizeLimit: '10mb', // Increase size limit for handling PDFs
+      sizeLimit: '10mb', // Increase size limit for handling PDFs and photos
     },
   },
 };
 
+/**
+ * Attachment data arrives as base64 text, or as a serialised Buffer
+ */
+function toBuffer(data: any): Buffer {
+  if (Buffer.isBuffer(data)) return data;
+  if (typeof data === 'string') return Buffer.from(data, 'base64');
+  if (data && data.type === 'Buffer' && Array.isArray(data.data)) return Buffer.from(data.data);
+  throw new Error('Attachment data must be base64 text');
+}
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ResponseData>
 ) {
-  // Check if user is authenticated
+  // Check if user is authenticated; ingestions are keyed by the account
   const session = await getServerSession(req, res, authOptions);
-  if (!session) {
+  if (!session?.user?.email) {
     return res.status(401).json({ 
       success: false, 
       message: 'Authentication required' 
@@ -51,28 +63,62 @@ export default async function handler(
       });
     }
 
-    // Check for PDF attachments
-    const emailsWithPdfs = emails.filter(email => 
-      email.pdfAttachments && 
-      Array.isArray(email.pdfAttachments) && 
-      email.pdfAttachments.length > 0
+    // Check for PDF and image attachments, or a body that may hold the receipt
+    const emailsWithDocuments = emails.filter(email => 
+      (email.attachments && 
+        Array.isArray(email.attachments) && 
+        email.attachments.length > 0) ||
+      (email.body && email.body.content)
     );
 
-    if (emailsWithPdfs.length === 0) {
+    if (emailsWithDocuments.length === 0) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'No attachments or email bodies found in the provided emails' 
+      });
+    }
+
+    // Optional per-run PDF text layout, to compare plain and layout-preserving extraction
+    const textLayout: TextLayoutMode | undefined = req.body.textLayout;
+    if (textLayout !== undefined && textLayout !== 'plain' && textLayout !== 'layout') {
       return res.status(400).json({ 
         success: false, 
-        message: 'No PDF attachments found in the provided emails' 
+        message: 'textLayout must be "plain" or "layout"' 
       });
     }
 
-    // Process PDF attachments
-    const receiptProcessor = new ReceiptProcessor();
-    const results = await receiptProcessor.processEmailBatch(emailsWithPdfs);
+    try {
+      emailsWithDocuments.forEach(email => {
+        email.attachments = (email.attachments || []).map(attachment => ({
+          ...attachment,
+          data: toBuffer(attachment.data)
+        }));
+      });
+    } catch (error) {
+      return res.status(400).json({ 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Invalid attachment data' 
+      });
+    }
+
+    // Queue one job per document; progress is reported by /api/jobs/[id].
+    // Documents already ingested for this account return their existing job
+    // unless force is set.
+    const jobs = await JobQueue.getInstance().enqueueEmailBatch(emailsWithDocuments, {
+      // Normalized like the push and sync paths, so every path shares one ingestion key
+      account: MailboxCredentialStore.normalizeAccount(session.user.email),
+      force: req.body.force === true,
+      options: { textLayout }
+    });
+    JobWorker.getInstance().start();
+
+    const duplicates = jobs.filter(job => job.duplicate).length;
 
-    return res.status(200).json({
+    return res.status(202).json({
       success: true,
-      message: `Successfully processed ${results.length} attachments`,
-      results
+      message: `Queued ${jobs.length - duplicates} documents for processing` +
+        (duplicates > 0 ? `, ${duplicates} already processed or in progress` : ''),
+      jobs
     });
 
   } catch (error) {
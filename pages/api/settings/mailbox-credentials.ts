@@ -0,0 +1,87 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../auth/[...nextauth]';
+import { createGmailClient, MailboxCredentialStore } from '../../../lib/mailbox-credentials';
+import { MailboxSyncStateStore } from '../../../lib/mailbox-sync-state';
+import { SecretBox } from '../../../lib/secret-box';
+
+type ResponseData = {
+  success: boolean;
+  data?: any;
+  error?: string;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  // Check if user is authenticated
+  const session = await getServerSession(req, res, authOptions);
+  if (!session?.user?.email) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  // GET describes the signed-in account's stored credentials, DELETE revokes them
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  const account = session.user.email;
+
+  try {
+    const store = MailboxCredentialStore.getInstance();
+
+    if (req.method === 'GET') {
+      // Tokens are never sent back to the client
+      return res.status(200).json({
+        success: true,
+        data: {
+          credentials: store.getStatus(account),
+          encryptionConfigured: SecretBox.isConfigured()
+        }
+      });
+    }
+
+    const credentials = store.get(account);
+    if (!credentials) {
+      return res.status(404).json({
+        success: false,
+        error: 'No credentials stored for this account'
+      });
+    }
+
+    // Stop the watch while the grant still works, then revoke the grant at
+    // Google. Both are best effort: the stored tokens are removed regardless.
+    const gmail = createGmailClient(credentials);
+    let revokedAtGoogle = true;
+    try {
+      await gmail.stopWatch();
+    } catch (error) {
+      console.error(`Error stopping the watch of ${account} before revoking:`, error);
+    }
+    try {
+      await gmail.revokeCredentials();
+    } catch (error) {
+      revokedAtGoogle = false;
+      console.error(`Error revoking the Google grant of ${account}:`, error);
+    }
+
+    store.remove(account);
+    MailboxSyncStateStore.getInstance().clearWatch(account);
+    console.log(`Revoked stored credentials of ${MailboxCredentialStore.normalizeAccount(account)}`);
+
+    return res.status(200).json({ success: true, data: { revokedAtGoogle } });
+  } catch (error) {
+    console.error('Error managing mailbox credentials:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../auth/[...nextauth]';
+import { PdfPasswordStore } from '../../../lib/pdf-password-store';
+import { SecretBox } from '../../../lib/secret-box';
+
+type ResponseData = {
+  success: boolean;
+  data?: any;
+  error?: string;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  // Check if user is authenticated
+  const session = await getServerSession(req, res, authOptions);
+  if (!session) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  // GET lists senders, POST adds or replaces a password, DELETE removes one
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  try {
+    const store = PdfPasswordStore.getInstance();
+
+    if (req.method === 'GET') {
+      // Passwords are never sent back to the client
+      return res.status(200).json({
+        success: true,
+        data: {
+          senders: store.list(),
+          encryptionConfigured: SecretBox.isConfigured()
+        }
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      const { sender } = req.query;
+      if (!sender || Array.isArray(sender)) {
+        return res.status(400).json({
+          success: false,
+          error: 'A single sender parameter is required'
+        });
+      }
+
+      if (!store.remove(sender)) {
+        return res.status(404).json({
+          success: false,
+          error: 'No password stored for this sender'
+        });
+      }
+
+      return res.status(200).json({ success: true });
+    }
+
+    const { sender, password } = req.body || {};
+    if (typeof sender !== 'string' || !sender.trim() || typeof password !== 'string' || !password) {
+      return res.status(400).json({
+        success: false,
+        error: 'sender and password are required'
+      });
+    }
+
+    if (!SecretBox.isConfigured()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Set SETTINGS_ENCRYPTION_KEY before storing PDF passwords'
+      });
+    }
+
+    store.set(sender, password);
+    console.log(`Stored PDF password for ${PdfPasswordStore.normalizeSender(sender)}`);
+
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error managing PDF passwords:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
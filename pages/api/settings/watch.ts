@@ -0,0 +1,114 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../auth/[...nextauth]';
+import { GmailService } from '../../../lib/gmail-service';
+import { MailboxSyncStateStore } from '../../../lib/mailbox-sync-state';
+import { getWatchedLabelIds, MailboxWatchSettingsStore, WATCH_SCOPES, WatchScope } from '../../../lib/mailbox-watch-settings';
+
+type ResponseData = {
+  success: boolean;
+  data?: any;
+  error?: string;
+};
+
+// Longest Gmail search accepted as a watch filter
+const MAX_QUERY_LENGTH = 500;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  // Check if user is authenticated
+  const session = await getServerSession(req, res, authOptions);
+  if (!session?.user?.email || !session.accessToken) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  // GET returns the signed-in account's watch settings and labels, POST replaces the settings
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  const account = session.user.email;
+
+  try {
+    const store = MailboxWatchSettingsStore.getInstance();
+    const gmail = new GmailService(session.accessToken);
+
+    if (req.method === 'GET') {
+      let topic: string | null = null;
+      let topicError: string | null = null;
+      try {
+        topic = GmailService.getPubSubTopic();
+      } catch (error) {
+        topicError = error instanceof Error ? error.message : String(error);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          settings: store.get(account),
+          labels: await gmail.listLabels(),
+          topic,
+          topicError
+        }
+      });
+    }
+
+    const { scope, labelIds, query } = req.body || {};
+    if (!WATCH_SCOPES.includes(scope)) {
+      return res.status(400).json({
+        success: false,
+        error: `scope must be one of ${WATCH_SCOPES.join(', ')}`
+      });
+    }
+    if (labelIds !== undefined && (!Array.isArray(labelIds) || labelIds.some(label => typeof label !== 'string' || !label))) {
+      return res.status(400).json({
+        success: false,
+        error: 'labelIds must be a list of label ids'
+      });
+    }
+    if (scope === 'labels' && (!labelIds || labelIds.length === 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Choose at least one label to watch'
+      });
+    }
+    if (query !== undefined && query !== null && (typeof query !== 'string' || query.length > MAX_QUERY_LENGTH)) {
+      return res.status(400).json({
+        success: false,
+        error: `query must be a Gmail search of at most ${MAX_QUERY_LENGTH} characters`
+      });
+    }
+
+    const settings = store.save(account, scope as WatchScope, labelIds || [], query || null);
+    console.log(`Saved watch settings of ${settings.account}: ${settings.scope}`);
+
+    // Re-create an active watch on the new labels; otherwise they apply when the watch is set up
+    let watchUpdated = false;
+    const syncState = MailboxSyncStateStore.getInstance();
+    if (syncState.get(account)?.watchExpiration) {
+      const watchResponse = await gmail.setupWatch(getWatchedLabelIds(settings));
+      syncState.recordWatch(
+        account,
+        String(watchResponse.historyId),
+        watchResponse.expiration ? Number(watchResponse.expiration) : null
+      );
+      watchUpdated = true;
+    }
+
+    return res.status(200).json({ success: true, data: { settings, watchUpdated } });
+  } catch (error) {
+    console.error('Error managing watch settings:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -2,6 +2,9 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from './auth/[...nextauth]'
 import { GmailService } from '../../lib/gmail-service'
+import { MailboxSyncStateStore } from '../../lib/mailbox-sync-state'
+import { getWatchedLabelIds, MailboxWatchSettingsStore } from '../../lib/mailbox-watch-settings'
+import { WatchRenewalScheduler } from '../../lib/watch-renewal'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Allow both GET and POST for flexibility
@@ -23,18 +26,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
     
     console.log('User authenticated, creating Gmail service...')
-    const gmailService = new GmailService(
-      session.accessToken,
-      session.refreshToken as string
-    )
+    const gmailService = new GmailService(session.accessToken)
     
     // Log the user email for debugging
     console.log(`Setting up watch for user: ${session.user?.email}`)
     
-    // Set up watch for Gmail notifications
-    const watchResponse = await gmailService.setupWatch()
+    // Set up watch for Gmail notifications, on the labels chosen in the account's watch settings
+    const labelIds = session.user?.email
+      ? getWatchedLabelIds(MailboxWatchSettingsStore.getInstance().get(session.user.email))
+      : undefined
+    const watchResponse = await gmailService.setupWatch(labelIds)
     console.log('Watch response received:', watchResponse)
     
+    // Notifications are processed from this point on, unless the account already has a cursor
+    if (session.user?.email && watchResponse.historyId) {
+      MailboxSyncStateStore.getInstance().recordWatch(
+        session.user.email,
+        String(watchResponse.historyId),
+        watchResponse.expiration ? Number(watchResponse.expiration) : null
+      )
+      // The scheduler renews the watch before it expires
+      WatchRenewalScheduler.getInstance().start()
+    }
+    
     // The response includes historyId and expiration
     return res.status(200).json({
       success: true,
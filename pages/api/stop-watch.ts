@@ -2,6 +2,7 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from './auth/[...nextauth]'
 import { GmailService } from '../../lib/gmail-service'
+import { MailboxSyncStateStore } from '../../lib/mailbox-sync-state'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -18,10 +19,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
     
     console.log('User authenticated, creating Gmail service...')
-    const gmailService = new GmailService(
-      session.accessToken,
-      session.refreshToken as string
-    )
+    const gmailService = new GmailService(session.accessToken)
     
     // Log the user email for debugging
     console.log(`Stopping watch for user: ${session.user?.email}`)
@@ -30,6 +28,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const stopResponse = await gmailService.stopWatch()
     console.log('Stop response received:', stopResponse)
     
+    if (session.user?.email) {
+      MailboxSyncStateStore.getInstance().clearWatch(session.user.email)
+    }
+    
     // Return success response
     return res.status(200).json({
       success: true,
@@ -0,0 +1,67 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from './auth/[...nextauth]';
+import { MailboxSyncStateStore } from '../../lib/mailbox-sync-state';
+import { WatchRenewalScheduler } from '../../lib/watch-renewal';
+
+type ResponseData = {
+  success: boolean;
+  data?: any;
+  error?: string;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  // Check if user is authenticated
+  const session = await getServerSession(req, res, authOptions);
+  if (!session) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  try {
+    // Make sure renewals are scheduled, in case the server started without the instrumentation hook
+    WatchRenewalScheduler.getInstance().start();
+
+    const leadMs = WatchRenewalScheduler.getLeadMs();
+    const accounts = MailboxSyncStateStore.getInstance().list().map(state => ({
+      account: state.account,
+      historyId: state.historyId,
+      watchExpiration: state.watchExpiration,
+      // When the scheduler renews the watch: before it expires, or after a failure's backoff
+      renewalDueAt: state.watchExpiration === null
+        ? null
+        : Math.max(state.watchExpiration - leadMs, state.nextWatchRenewalAt || 0),
+      lastWatchRenewalAt: state.lastWatchRenewalAt,
+      watchRenewalError: state.watchRenewalError,
+      watchRenewalFailures: state.watchRenewalFailures,
+      lastSyncedAt: state.lastSyncedAt,
+      lastFullSyncAt: state.lastFullSyncAt,
+      lastError: state.lastError,
+      lastErrorAt: state.lastErrorAt
+    }));
+
+    return res.status(200).json({
+      success: true,
+      data: { accounts, serverTime: Date.now() }
+    });
+  } catch (error) {
+    console.error('Error fetching watch health:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import { useSession, signOut } from 'next-auth/react'
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/router'
+import { getDocumentKind } from '../../lib/document-types'
 
 interface Attachment {
   filename: string
@@ -16,8 +17,8 @@ interface Email {
   date: string
   snippet: string
   source?: string
-  hasPdfAttachment?: boolean
-  pdfAttachments?: Attachment[]
+  hasDocumentAttachment?: boolean
+  documentAttachments?: Attachment[]
 }
 
 export default function Dashboard() {
@@ -242,12 +243,14 @@ export default function Dashboard() {
                           {extractSenderName(email.from)}
                         </p>
                         <div className="flex items-center space-x-2">
-                          {email.hasPdfAttachment && (
+                          {email.hasDocumentAttachment && (
                             <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
                               <svg className="mr-1 h-3 w-3" fill="currentColor" viewBox="0 0 20 20">
                                 <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4zm2 6a1 1 0 011-1h6a1 1 0 110 2H7a1 1 0 01-1-1zm1 3a1 1 0 100 2h6a1 1 0 100-2H7z" clipRule="evenodd" />
                               </svg>
-                              PDF Receipt
+                              {email.documentAttachments?.some(attachment => getDocumentKind(attachment.mimeType, attachment.filename) === 'image')
+                                ? 'Photo Receipt'
+                                : 'PDF Receipt'}
                             </span>
                           )}
                           <p className="text-sm text-gray-500 flex-shrink-0">
@@ -270,15 +273,15 @@ export default function Dashboard() {
                         </p>
                       )}
                       
-                      {/* PDF Attachments */}
-                      {email.pdfAttachments && email.pdfAttachments.length > 0 && (
+                      {/* PDF and image attachments */}
+                      {email.documentAttachments && email.documentAttachments.length > 0 && (
                         <div className="mt-3">
                           <p className="text-xs font-medium text-gray-500 mb-1">Attachments:</p>
                           <div className="flex flex-wrap gap-2">
-                            {email.pdfAttachments.map((attachment, index) => (
+                            {email.documentAttachments.map((attachment, index) => (
                               <a 
                                 key={index}
-                                href={`/api/download-attachment?messageId=${email.id}&attachmentId=${attachment.attachmentId}`}
+                                href={`/api/download-attachment?messageId=${email.id}&attachmentId=${attachment.attachmentId}&filename=${encodeURIComponent(attachment.filename)}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
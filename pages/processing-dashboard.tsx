@@ -16,6 +16,12 @@ interface ProcessingStats {
     failureCount: number;
     avgProcessingTime: number;
   }>;
+  extractionMethods: Array<{
+    method: string;
+    receipts: number;
+    avgConfidence: number;
+    withIssues: number;
+  }>;
   recentErrors: Array<{
     id: number;
     email_id: string;
@@ -24,6 +30,55 @@ interface ProcessingStats {
     error_message: string;
     processed_at: string;
   }>;
+  cache: {
+    entries: number;
+    hits: number;
+    hitRate: number;
+    byModel: Array<{
+      model: string;
+      promptVersion: string;
+      task: string;
+      entries: number;
+      hits: number;
+    }>;
+  };
+  costs: {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalCost: number;
+    unpricedCalls: number;
+    successfulReceipts: number;
+    costPerReceipt: number;
+    byDay: Array<{
+      day: string;
+      calls: number;
+      tokens: number;
+      cost: number;
+    }>;
+    byStage: Array<{
+      stage: string;
+      calls: number;
+      promptTokens: number;
+      completionTokens: number;
+      cost: number;
+    }>;
+  };
+}
+
+interface WatchHealth {
+  account: string;
+  historyId: string | null;
+  // Epoch milliseconds; null when the account has no watch
+  watchExpiration: number | null;
+  renewalDueAt: number | null;
+  lastWatchRenewalAt: string | null;
+  watchRenewalError: string | null;
+  watchRenewalFailures: number;
+  lastSyncedAt: string | null;
+  lastFullSyncAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
 }
 
 const ProcessingDashboard: React.FC = () => {
@@ -31,6 +86,9 @@ const ProcessingDashboard: React.FC = () => {
   const [stats, setStats] = useState<ProcessingStats | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [watchHealth, setWatchHealth] = useState<WatchHealth[] | null>(null);
+  const [watchHealthVersion, setWatchHealthVersion] = useState<number>(0);
+  const [now, setNow] = useState<number>(Date.now());
   
   // Fetch processing stats
   const fetchProcessingStats = async () => {
@@ -66,6 +124,54 @@ const ProcessingDashboard: React.FC = () => {
     }
   }, [session]);
   
+  // Fetch Gmail watch health, and tick the expiry countdowns every minute
+  useEffect(() => {
+    if (!session) return;
+    
+    const fetchWatchHealth = async () => {
+      try {
+        const response = await fetch('/api/watch-health');
+        const data = await response.json();
+        
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to fetch watch health');
+        }
+        
+        setWatchHealth(data.data.accounts);
+        setNow(Date.now());
+      } catch (error) {
+        console.error('Error fetching watch health:', error);
+      }
+    };
+    
+    fetchWatchHealth();
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [session, watchHealthVersion]);
+  
+  const refresh = () => {
+    fetchProcessingStats();
+    setWatchHealthVersion(version => version + 1);
+  };
+  
+  // Format the time until (or since) an epoch millisecond timestamp, e.g. "in 6d 23h"
+  const formatCountdown = (timestamp: number) => {
+    const minutes = Math.round(Math.abs(timestamp - now) / (60 * 1000));
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+    const text = days > 0 ? `${days}d ${hours}h` : hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+    return timestamp >= now ? `in ${text}` : `${text} ago`;
+  };
+  
+  // Watch status label and badge color
+  const getWatchStatus = (watch: WatchHealth) => {
+    if (watch.watchExpiration === null) return { label: 'Not Watching', className: 'bg-gray-100 text-gray-800' };
+    if (watch.watchExpiration <= now) return { label: 'Expired', className: 'bg-red-100 text-red-800' };
+    if (watch.watchRenewalError) return { label: 'Renewal Failing', className: 'bg-red-100 text-red-800' };
+    if (watch.renewalDueAt !== null && watch.renewalDueAt <= now) return { label: 'Renewal Due', className: 'bg-yellow-100 text-yellow-800' };
+    return { label: 'Active', className: 'bg-green-100 text-green-800' };
+  };
+  
   // Format time in milliseconds to a readable format
   const formatTime = (ms: number) => {
     if (ms < 1000) {
@@ -75,6 +181,11 @@ const ProcessingDashboard: React.FC = () => {
     }
   };
   
+  // Format an estimated USD cost; per-call costs are often fractions of a cent
+  const formatCost = (cost: number) => {
+    return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+  };
+  
   // Format date
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
@@ -147,6 +258,100 @@ const ProcessingDashboard: React.FC = () => {
           </div>
         )}
         
+        {/* Gmail watch health */}
+        {watchHealth && watchHealth.length > 0 && (
+          <div className="bg-white rounded-lg shadow mb-8">
+            <div className="px-6 py-5 border-b border-gray-200">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">
+                Gmail Watch Health
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Watches are renewed automatically before they expire; failed renewals are retried with backoff
+              </p>
+            </div>
+            
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Account
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Watch
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Expires
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Last Renewal
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Last Sync
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {watchHealth.map((watch) => {
+                    const watchStatus = getWatchStatus(watch);
+                    return (
+                      <tr key={watch.account}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {watch.account}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${watchStatus.className}`}>
+                            {watchStatus.label}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {watch.watchExpiration !== null ? (
+                            <>
+                              <div className="text-gray-900">{formatCountdown(watch.watchExpiration)}</div>
+                              <div className="text-xs">{new Date(watch.watchExpiration).toLocaleString()}</div>
+                            </>
+                          ) : '—'}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-500 max-w-xs">
+                          {watch.lastWatchRenewalAt ? (
+                            <>
+                              <div className={watch.watchRenewalError ? 'text-red-600' : 'text-green-700'}>
+                                {watch.watchRenewalError
+                                  ? `Failed${watch.watchRenewalFailures > 1 ? ` ${watch.watchRenewalFailures} times` : ''}`
+                                  : 'Succeeded'}
+                                {' '}{formatDate(watch.lastWatchRenewalAt)}
+                              </div>
+                              {watch.watchRenewalError && (
+                                <div className="text-xs text-red-600 truncate" title={watch.watchRenewalError}>
+                                  {watch.watchRenewalError}
+                                </div>
+                              )}
+                              {watch.watchRenewalError && watch.renewalDueAt !== null && (
+                                <div className="text-xs">Next attempt {formatCountdown(watch.renewalDueAt)}</div>
+                              )}
+                            </>
+                          ) : 'Never'}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-500 max-w-xs">
+                          <div>{watch.lastSyncedAt ? formatDate(watch.lastSyncedAt) : 'Never'}</div>
+                          {watch.lastFullSyncAt && (
+                            <div className="text-xs">Full sync {formatDate(watch.lastFullSyncAt)}</div>
+                          )}
+                          {watch.lastError && (
+                            <div className="text-xs text-red-600 truncate" title={watch.lastError}>
+                              {watch.lastError}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+        
         {loading ? (
           <div className="animate-pulse">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
@@ -289,6 +494,239 @@ const ProcessingDashboard: React.FC = () => {
               </div>
             </div>
             
+            {/* LLM response cache */}
+            <div className="bg-white rounded-lg shadow mb-8">
+              <div className="px-6 py-5 border-b border-gray-200">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  LLM Response Cache
+                </h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  {stats.cache.hits} cache hits across {stats.cache.entries} cached responses
+                  ({stats.cache.hitRate.toFixed(0)}% hit rate)
+                </p>
+              </div>
+              
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Model
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Prompt Version
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Task
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Entries
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Hits
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {stats.cache.byModel.map((row) => (
+                      <tr key={`${row.model}-${row.promptVersion}-${row.task}`}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {row.model}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {row.promptVersion}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {row.task.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {row.entries}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {row.hits}
+                        </td>
+                      </tr>
+                    ))}
+                    
+                    {stats.cache.byModel.length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500 italic">
+                          No cached LLM responses yet
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+            
+            {/* LLM token usage and cost */}
+            <div className="bg-white rounded-lg shadow mb-8">
+              <div className="px-6 py-5 border-b border-gray-200">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  LLM Cost
+                </h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  {formatCost(stats.costs.totalCost)} estimated across {stats.costs.calls} calls
+                  ({(stats.costs.promptTokens + stats.costs.completionTokens).toLocaleString()} tokens),
+                  {' '}{formatCost(stats.costs.costPerReceipt)} per extracted receipt
+                  {stats.costs.unpricedCalls > 0 && ` (${stats.costs.unpricedCalls} calls to models without a price)`}
+                </p>
+              </div>
+              
+              <div className="grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x divide-gray-200">
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Stage
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Calls
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Tokens In / Out
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Cost
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {stats.costs.byStage.map((row) => (
+                        <tr key={row.stage}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            {row.stage.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {row.calls}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {row.promptTokens.toLocaleString()} / {row.completionTokens.toLocaleString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatCost(row.cost)}
+                          </td>
+                        </tr>
+                      ))}
+                      
+                      {stats.costs.byStage.length === 0 && (
+                        <tr>
+                          <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500 italic">
+                            No LLM usage recorded yet
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+                
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Day
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Calls
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Tokens
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Cost
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {stats.costs.byDay.map((row) => (
+                        <tr key={row.day}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            {row.day}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {row.calls}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {row.tokens.toLocaleString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatCost(row.cost)}
+                          </td>
+                        </tr>
+                      ))}
+                      
+                      {stats.costs.byDay.length === 0 && (
+                        <tr>
+                          <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500 italic">
+                            No LLM usage in the last 30 days
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+            
+            {/* Receipt quality by text extraction method */}
+            <div className="bg-white rounded-lg shadow mb-8">
+              <div className="px-6 py-5 border-b border-gray-200">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  Extraction Methods
+                </h3>
+              </div>
+              
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Method
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Receipts
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Avg. Confidence
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        With Issues
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {stats.extractionMethods.map((row) => (
+                      <tr key={row.method}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {row.method.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {row.receipts}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {(row.avgConfidence || 0).toFixed(0)}%
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {row.receipts > 0 ? ((row.withIssues / row.receipts) * 100).toFixed(0) : 0}%
+                        </td>
+                      </tr>
+                    ))}
+                    
+                    {stats.extractionMethods.length === 0 && (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500 italic">
+                          No receipts extracted yet
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+            
             {/* Recent errors */}
             <div className="bg-white rounded-lg shadow">
               <div className="px-6 py-5 border-b border-gray-200">
@@ -347,7 +785,7 @@ const ProcessingDashboard: React.FC = () => {
               <div className="px-6 py-4 border-t border-gray-200">
                 <button
                   className="text-blue-600 hover:text-blue-800 text-sm font-medium"
-                  onClick={fetchProcessingStats}
+                  onClick={refresh}
                 >
                   Refresh
                 </button>
@@ -0,0 +1,529 @@
+import React, { useState, useEffect } from 'react';
+import { signOut, useSession } from 'next-auth/react';
+import Head from 'next/head';
+import Link from 'next/link';
+
+interface PdfPasswordEntry {
+  sender: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface MailboxCredentialStatus {
+  account: string;
+  hasRefreshToken: boolean;
+  accessTokenExpiresAt: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type WatchScope = 'inbox' | 'labels' | 'all';
+
+interface GmailLabel {
+  id: string;
+  name: string;
+  type: string;
+}
+
+const WATCH_SCOPE_OPTIONS: Array<{ value: WatchScope; label: string; description: string }> = [
+  { value: 'inbox', label: 'Inbox', description: 'Messages arriving in the inbox' },
+  { value: 'labels', label: 'Chosen labels', description: 'Messages given one of these labels, e.g. by a Gmail filter' },
+  { value: 'all', label: 'All mail', description: 'Everything except spam, trash and drafts' }
+];
+
+const Settings: React.FC = () => {
+  const { data: session, status } = useSession();
+  const [senders, setSenders] = useState<PdfPasswordEntry[]>([]);
+  const [encryptionConfigured, setEncryptionConfigured] = useState<boolean>(true);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sender, setSender] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [credentials, setCredentials] = useState<MailboxCredentialStatus | null>(null);
+  const [credentialsLoading, setCredentialsLoading] = useState<boolean>(true);
+  const [revoking, setRevoking] = useState<boolean>(false);
+  const [watchScope, setWatchScope] = useState<WatchScope>('inbox');
+  const [watchLabelIds, setWatchLabelIds] = useState<string[]>([]);
+  const [watchQuery, setWatchQuery] = useState<string>('');
+  const [labels, setLabels] = useState<GmailLabel[]>([]);
+  const [topic, setTopic] = useState<string | null>(null);
+  const [topicError, setTopicError] = useState<string | null>(null);
+  const [watchLoading, setWatchLoading] = useState<boolean>(true);
+  const [watchSaving, setWatchSaving] = useState<boolean>(false);
+  const [watchMessage, setWatchMessage] = useState<string | null>(null);
+  
+  // Fetch the senders that have a PDF password
+  const fetchPdfPasswords = async () => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const response = await fetch('/api/settings/pdf-passwords');
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch PDF passwords');
+      }
+      
+      setSenders(data.data.senders);
+      setEncryptionConfigured(data.data.encryptionConfigured);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+      console.error('Error fetching PDF passwords:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+  
+  // Fetch what is stored to read the mailbox in the background
+  const fetchCredentials = async () => {
+    setCredentialsLoading(true);
+    
+    try {
+      const response = await fetch('/api/settings/mailbox-credentials');
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch stored credentials');
+      }
+      
+      setCredentials(data.data.credentials);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+      console.error('Error fetching stored credentials:', error);
+    } finally {
+      setCredentialsLoading(false);
+    }
+  };
+  
+  // Fetch which mail is watched, and the labels to choose from
+  const fetchWatchSettings = async () => {
+    setWatchLoading(true);
+    
+    try {
+      const response = await fetch('/api/settings/watch');
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch watch settings');
+      }
+      
+      setWatchScope(data.data.settings.scope);
+      setWatchLabelIds(data.data.settings.labelIds);
+      setWatchQuery(data.data.settings.query || '');
+      setLabels(data.data.labels);
+      setTopic(data.data.topic);
+      setTopicError(data.data.topicError);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+      console.error('Error fetching watch settings:', error);
+    } finally {
+      setWatchLoading(false);
+    }
+  };
+  
+  // Effect to fetch data on mount
+  useEffect(() => {
+    if (session) {
+      fetchPdfPasswords();
+      fetchCredentials();
+      fetchWatchSettings();
+    }
+  }, [session]);
+  
+  // Revoke the stored credentials; Google invalidates the session's token too, so sign out
+  const handleRevoke = async () => {
+    if (!credentials) return;
+    if (!confirm(`Revoke Gmail access for ${credentials.account}? Push notifications and background processing stop, and you will be signed out.`)) return;
+    
+    setRevoking(true);
+    setError(null);
+    
+    try {
+      const response = await fetch('/api/settings/mailbox-credentials', { method: 'DELETE' });
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to revoke stored credentials');
+      }
+      
+      if (!data.data.revokedAtGoogle) {
+        alert('The stored credentials were deleted, but Google could not be reached to revoke them. You can also remove the app at myaccount.google.com/permissions.');
+      }
+      signOut({ callbackUrl: '/' });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+      setRevoking(false);
+    }
+  };
+  
+  // Save which mail is watched; an active watch is re-created on the new labels
+  const handleSaveWatch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setWatchSaving(true);
+    setWatchMessage(null);
+    setError(null);
+    
+    try {
+      const response = await fetch('/api/settings/watch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scope: watchScope, labelIds: watchLabelIds, query: watchQuery })
+      });
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save watch settings');
+      }
+      
+      setWatchMessage(data.data.watchUpdated
+        ? 'Saved. The Gmail watch was updated.'
+        : 'Saved. The settings apply when the Gmail watch is set up.');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setWatchSaving(false);
+    }
+  };
+  
+  // Add or remove a label from the watched labels
+  const toggleWatchLabel = (labelId: string) => {
+    setWatchLabelIds(current => current.includes(labelId)
+      ? current.filter(id => id !== labelId)
+      : [...current, labelId]);
+  };
+  
+  // Add or replace the password for a sender
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    
+    try {
+      const response = await fetch('/api/settings/pdf-passwords', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sender, password })
+      });
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save PDF password');
+      }
+      
+      setSender('');
+      setPassword('');
+      await fetchPdfPasswords();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+  
+  // Remove the password for a sender
+  const handleRemove = async (entry: PdfPasswordEntry) => {
+    if (!confirm(`Remove the PDF password for ${entry.sender}?`)) return;
+    
+    try {
+      const response = await fetch(`/api/settings/pdf-passwords?sender=${encodeURIComponent(entry.sender)}`, {
+        method: 'DELETE'
+      });
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to remove PDF password');
+      }
+      
+      await fetchPdfPasswords();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+    }
+  };
+  
+  // Format date
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+  
+  if (status === 'loading') {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <div className="spinner-border animate-spin inline-block w-8 h-8 border-4 rounded-full text-blue-600" role="status">
+            <span className="visually-hidden">Loading...</span>
+          </div>
+          <p className="mt-2 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+  
+  if (status === 'unauthenticated') {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Authentication Required</h2>
+          <p className="text-gray-600 mb-4">Please sign in to manage settings.</p>
+          <Link
+            href="/email-auth-flow/signin"
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Sign In
+          </Link>
+        </div>
+      </div>
+    );
+  }
+  
+  return (
+    <>
+      <Head>
+        <title>Settings | Email Demo</title>
+      </Head>
+      
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Manage how receipts are read from your mailbox
+          </p>
+        </div>
+        
+        {/* Error alert */}
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-6">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+        
+        {/* Stored Gmail credentials */}
+        <div className="bg-white rounded-lg shadow mb-8">
+          <div className="px-6 py-5 border-b border-gray-200">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Gmail Access
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Your Google tokens are stored encrypted so new receipts are processed while you are signed out.
+              Revoking them stops push notifications and background processing until you sign in again.
+            </p>
+          </div>
+          
+          {session?.error === 'RefreshAccessTokenError' && (
+            <div className="px-6 py-4 bg-yellow-50 text-sm text-yellow-800">
+              Your Google access has expired and could not be renewed. Sign in again to reconnect.
+            </div>
+          )}
+          
+          <div className="px-6 py-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            {credentialsLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : credentials ? (
+              <div className="text-sm">
+                <p className="font-medium text-gray-900">{credentials.account}</p>
+                <p className="text-gray-500">
+                  {credentials.hasRefreshToken
+                    ? 'Offline access: tokens are refreshed automatically'
+                    : 'No refresh token: background access ends when the current token expires'}
+                  {' · '}Updated {formatDate(credentials.updatedAt)}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No credentials stored for this account</p>
+            )}
+            
+            {credentials && (
+              <button
+                onClick={handleRevoke}
+                disabled={revoking}
+                className="px-4 py-2 border border-red-300 text-red-700 rounded-md text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+              >
+                {revoking ? 'Revoking...' : 'Revoke Access'}
+              </button>
+            )}
+          </div>
+        </div>
+        
+        {/* Watched mail */}
+        <div className="bg-white rounded-lg shadow mb-8">
+          <div className="px-6 py-5 border-b border-gray-200">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Gmail Watch
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Choose which mail is watched for receipts. A Gmail search narrows it further, e.g. from:amazon.com or subject:invoice.
+            </p>
+          </div>
+          
+          {topicError && (
+            <div className="px-6 py-4 bg-yellow-50 text-sm text-yellow-800">
+              {topicError}, so Gmail watches cannot be set up.
+            </div>
+          )}
+          
+          {watchLoading ? (
+            <p className="px-6 py-4 text-sm text-gray-500">Loading...</p>
+          ) : (
+            <form onSubmit={handleSaveWatch} className="px-6 py-4 space-y-4">
+              <div className="space-y-2">
+                {WATCH_SCOPE_OPTIONS.map((option) => (
+                  <label key={option.value} className="flex items-start gap-2 text-sm">
+                    <input
+                      type="radio"
+                      name="watchScope"
+                      value={option.value}
+                      checked={watchScope === option.value}
+                      onChange={() => setWatchScope(option.value)}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="font-medium text-gray-900">{option.label}</span>
+                      <span className="text-gray-500"> · {option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              
+              {watchScope === 'labels' && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 pl-6">
+                  {labels.filter((label) => label.type === 'user').map((label) => (
+                    <label key={label.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={watchLabelIds.includes(label.id)}
+                        onChange={() => toggleWatchLabel(label.id)}
+                      />
+                      {label.name}
+                    </label>
+                  ))}
+                  {labels.every((label) => label.type !== 'user') && (
+                    <p className="text-sm text-gray-500">No labels of your own yet; create one in Gmail first</p>
+                  )}
+                </div>
+              )}
+              
+              <input
+                type="text"
+                value={watchQuery}
+                onChange={(e) => setWatchQuery(e.target.value)}
+                placeholder="Gmail search (optional)"
+                maxLength={500}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <p className="text-xs text-gray-500">
+                  Pub/Sub topic: <span className="font-mono">{topic || 'not configured'}</span>
+                </p>
+                <button
+                  type="submit"
+                  disabled={watchSaving || (watchScope === 'labels' && watchLabelIds.length === 0)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {watchSaving ? 'Saving...' : 'Save Watch Settings'}
+                </button>
+              </div>
+              
+              {watchMessage && (
+                <p className="text-sm text-green-700">{watchMessage}</p>
+              )}
+            </form>
+          )}
+        </div>
+        
+        {/* PDF passwords */}
+        <div className="bg-white rounded-lg shadow mb-8">
+          <div className="px-6 py-5 border-b border-gray-200">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              PDF Passwords
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Password-protected statements from these senders are opened with the stored password.
+              Use a full address (billing@bank.com) or a domain (bank.com) to cover every sender at it.
+            </p>
+          </div>
+          
+          {!encryptionConfigured && (
+            <div className="px-6 py-4 bg-yellow-50 text-sm text-yellow-800">
+              SETTINGS_ENCRYPTION_KEY is not set, so passwords cannot be stored.
+            </div>
+          )}
+          
+          <form onSubmit={handleSave} className="px-6 py-4 flex flex-col sm:flex-row gap-3 border-b border-gray-200">
+            <input
+              type="text"
+              value={sender}
+              onChange={(e) => setSender(e.target.value)}
+              placeholder="Sender address or domain"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              required
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="PDF password"
+              autoComplete="new-password"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              required
+            />
+            <button
+              type="submit"
+              disabled={saving || !encryptionConfigured}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Password'}
+            </button>
+          </form>
+          
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Sender
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Updated
+                  </th>
+                  <th scope="col" className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {senders.map((entry) => (
+                  <tr key={entry.sender}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {entry.sender}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(entry.updatedAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <button
+                        onClick={() => handleRemove(entry)}
+                        className="text-red-600 hover:text-red-800 font-medium"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                
+                {!loading && senders.length === 0 && (
+                  <tr>
+                    <td colSpan={3} className="px-6 py-4 text-center text-sm text-gray-500">
+                      No PDF passwords stored
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,90 @@
+/**
+ * Offline A/B evaluation of two extraction prompt versions.
+ *
+ * Usage:
+ *   npm run eval:prompts -- --dir <labelled-folder> --a v1 --b v2 [--json]
+ *
+ * The folder holds `<name>.txt` receipt texts with `<name>.json` labels
+ * (see ReceiptLabel in lib/prompt-evaluation.ts). The LLM provider is
+ * selected the same way as in the app (LLM_PROVIDER, LLM_MODEL, ...).
+ */
+import { createLLMProvider } from '../lib/llm-config';
+import {
+  EVALUATED_FIELDS,
+  evaluatePromptVersion,
+  loadLabelledReceipts,
+  PromptEvaluationResult
+} from '../lib/prompt-evaluation';
+
+function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = true;
+    }
+  }
+  return args;
+}
+
+function printReport(a: PromptEvaluationResult, b: PromptEvaluationResult): void {
+  const pad = (value: string, width: number) => value.padEnd(width);
+  const percent = (value: number) => `${value.toFixed(1)}%`;
+
+  console.log(`\nEvaluated ${a.samples} labelled receipts\n`);
+  console.log(`${pad('Field', 12)}${pad(a.promptVersion, 18)}${pad(b.promptVersion, 18)}Delta`);
+  console.log('-'.repeat(54));
+
+  for (const field of EVALUATED_FIELDS) {
+    const scoreA = a.fields[field];
+    const scoreB = b.fields[field];
+    if (scoreA.scored === 0 && scoreB.scored === 0) continue;
+
+    const delta = scoreB.accuracy - scoreA.accuracy;
+    console.log(
+      `${pad(field, 12)}${pad(percent(scoreA.accuracy), 18)}${pad(percent(scoreB.accuracy), 18)}${delta >= 0 ? '+' : ''}${delta.toFixed(1)}`
+    );
+  }
+
+  console.log(`${pad('failures', 12)}${pad(String(a.failures), 18)}${pad(String(b.failures), 18)}`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const dir = args.dir;
+  const versionA = typeof args.a === 'string' ? args.a : 'v1';
+  const versionB = typeof args.b === 'string' ? args.b : 'v2';
+
+  if (typeof dir !== 'string') {
+    console.error('Usage: npm run eval:prompts -- --dir <labelled-folder> --a v1 --b v2 [--json]');
+    process.exit(1);
+  }
+
+  const receipts = loadLabelledReceipts(dir);
+  if (receipts.length === 0) {
+    console.error(`No labelled receipts found in ${dir}`);
+    process.exit(1);
+  }
+
+  const provider = createLLMProvider();
+  console.log(`Evaluating extraction prompts ${versionA} vs ${versionB} with ${provider.name}/${provider.model}`);
+
+  const resultA = await evaluatePromptVersion(provider, versionA, receipts);
+  const resultB = await evaluatePromptVersion(provider, versionB, receipts);
+
+  if (args.json) {
+    console.log(JSON.stringify({ a: resultA, b: resultB }, null, 2));
+  } else {
+    printReport(resultA, resultB);
+  }
+}
+
+main().catch(error => {
+  console.error('Prompt evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,163 @@
+/**
+ * Local stand-in for the Gmail API, to exercise the push notification path
+ * without a Google account.
+ *
+ * Usage:
+ *   npm run fake:gmail -- [--port 8085] [--mailbox fixtures/gmail/mailbox.json]
+ *
+ * Then start the app with GMAIL_API_ROOT_URL=http://localhost:8085/ and post
+ * a notification to /api/gmail-webhook. The mailbox file is read on every
+ * request, so adding a message and a history record to it simulates new
+ * mail. It holds:
+ *   historyId     the mailbox's current history id
+ *   minHistoryId  optional; older start ids get a 404, like an expired cursor,
+ *                 which makes the app list messages by internalDate instead
+ *   history       history records ({ id, messagesAdded: [{ message: { id, labelIds } }] },
+ *                 and labelsAdded: [{ message: { id }, labelIds }] for labels applied later)
+ *   messages      full messages by id, as returned by messages.get
+ *   attachments   base64 attachment data by attachment id
+ *   labels        optional user labels ({ id, name }), listed with the system labels
+ *
+ * Searches only understand after: and rfc822msgid:; other terms are ignored.
+ */
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+
+interface FakeMailbox {
+  historyId: string;
+  minHistoryId?: string;
+  history: Array<{
+    id: string;
+    messagesAdded?: Array<{ message: { id: string; labelIds?: string[] } }>;
+    labelsAdded?: Array<{ message: { id: string }; labelIds: string[] }>;
+  }>;
+  messages: Record<string, any>;
+  attachments: Record<string, string>;
+  labels?: Array<{ id: string; name: string }>;
+}
+
+const SYSTEM_LABELS = ['INBOX', 'SENT', 'DRAFT', 'SPAM', 'TRASH', 'UNREAD', 'STARRED', 'IMPORTANT'];
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length - 1; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[++i];
+    }
+  }
+  return args;
+}
+
+// History ids are compared as integers of any length
+function isAfter(a: string, b: string): boolean {
+  return a.length !== b.length ? a.length > b.length : a > b;
+}
+
+function send(res: http.ServerResponse, status: number, body?: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function notFound(res: http.ServerResponse, message: string): void {
+  send(res, 404, { error: { code: 404, message, status: 'NOT_FOUND' } });
+}
+
+function handle(mailbox: FakeMailbox, method: string, url: URL, res: http.ServerResponse): void {
+  const route = url.pathname.replace(/^\/gmail\/v1\/users\/[^/]+/, '');
+
+  if (method === 'GET' && route === '/history') {
+    const start = url.searchParams.get('startHistoryId') || '0';
+    if (mailbox.minHistoryId && isAfter(mailbox.minHistoryId, start)) {
+      return notFound(res, 'Requested entity was not found.');
+    }
+
+    const labelId = url.searchParams.get('labelId');
+    const history = mailbox.history
+      .filter(record => isAfter(record.id, start))
+      .map(record => ({
+        ...record,
+        messagesAdded: (record.messagesAdded || []).filter(added =>
+          !labelId || (added.message.labelIds || []).includes(labelId)),
+        labelsAdded: (record.labelsAdded || []).filter(added =>
+          !labelId || added.labelIds.includes(labelId))
+      }));
+    return send(res, 200, { history, historyId: mailbox.historyId });
+  }
+
+  if (method === 'GET' && route === '/profile') {
+    return send(res, 200, { emailAddress: 'fake@example.com', historyId: mailbox.historyId });
+  }
+
+  if (method === 'GET' && route === '/labels') {
+    const labels = [
+      ...SYSTEM_LABELS.map(id => ({ id, name: id, type: 'system' })),
+      ...(mailbox.labels || []).map(label => ({ ...label, type: 'user' }))
+    ];
+    return send(res, 200, { labels });
+  }
+
+  // Supports the labelIds filter and "after:<epoch seconds>" and "rfc822msgid:<id>" queries
+  if (method === 'GET' && route === '/messages') {
+    const labelIds = url.searchParams.getAll('labelIds');
+    const query = url.searchParams.get('q') || '';
+    const after = query.match(/after:(\d+)/);
+    const rfc822Id = query.match(/rfc822msgid:(\S+)/);
+    const messages = Object.values(mailbox.messages)
+      .filter(found => labelIds.every(label => (found.labelIds || []).includes(label)))
+      .filter(found => !after || Number(found.internalDate) > Number(after[1]) * 1000)
+      .filter(found => !rfc822Id || (found.payload?.headers || []).some((header: { name: string; value: string }) =>
+        header.name.toLowerCase() === 'message-id' && header.value.replace(/^<|>$/g, '') === rfc822Id[1]))
+      .sort((a, b) => Number(b.internalDate) - Number(a.internalDate))
+      .map(found => ({ id: found.id, threadId: found.threadId }));
+    return send(res, 200, { messages, resultSizeEstimate: messages.length });
+  }
+
+  const attachment = route.match(/^\/messages\/([^/]+)\/attachments\/([^/]+)$/);
+  if (method === 'GET' && attachment) {
+    const data = mailbox.attachments[attachment[2]];
+    return data ? send(res, 200, { data, size: Buffer.from(data, 'base64').length }) : notFound(res, 'Invalid attachment id');
+  }
+
+  const message = route.match(/^\/messages\/([^/]+)$/);
+  if (method === 'GET' && message) {
+    const found = mailbox.messages[message[1]];
+    return found ? send(res, 200, found) : notFound(res, 'Requested entity was not found.');
+  }
+
+  if (method === 'POST' && route === '/watch') {
+    return send(res, 200, {
+      historyId: mailbox.historyId,
+      expiration: String(Date.now() + 7 * 24 * 60 * 60 * 1000)
+    });
+  }
+
+  if (method === 'POST' && route === '/stop') {
+    return send(res, 204);
+  }
+
+  notFound(res, `No fake for ${method} ${url.pathname}`);
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const port = parseInt(args.port || '8085', 10);
+  const mailboxPath = path.resolve(args.mailbox || 'fixtures/gmail/mailbox.json');
+
+  http.createServer((req, res) => {
+    const url = new URL(req.url || '/', `http://localhost:${port}`);
+    console.log(`${req.method} ${url.pathname}${url.search}`);
+
+    try {
+      const mailbox = JSON.parse(fs.readFileSync(mailboxPath, 'utf8')) as FakeMailbox;
+      handle(mailbox, req.method || 'GET', url, res);
+    } catch (error) {
+      console.error('Fake Gmail API error:', error);
+      send(res, 500, { error: { code: 500, message: String(error) } });
+    }
+  }).listen(port, () => {
+    console.log(`Fake Gmail API serving ${mailboxPath} on http://localhost:${port}/`);
+  });
+}
+
+main();
@@ -0,0 +1,76 @@
+/**
+ * Local stand-in for the keys Google signs Pub/Sub push tokens with, to
+ * exercise the webhook's authentication without a push subscription.
+ *
+ * Usage:
+ *   npm run pubsub:token -- [--keys .pubsub-test-keys] [--audience <url>] [--email <service account>]
+ *                           [--expires-in 3600]
+ *
+ * Creates an RSA key pair in the keys directory on first use (private.pem
+ * and jwks.json) and prints a token signed with it, shaped like the ones
+ * Pub/Sub sends. Start the app with PUBSUB_JWKS_FILE=<keys>/jwks.json and
+ * send the token as "Authorization: Bearer <token>". The audience defaults
+ * to PUBSUB_AUDIENCE, then NEXTAUTH_URL + /api/gmail-webhook.
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const KEY_ID = 'pubsub-test-key';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length - 1; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[++i];
+    }
+  }
+  return args;
+}
+
+function base64url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// The key pair is kept so tokens stay valid across app restarts
+function loadPrivateKey(keysDir: string): crypto.KeyObject {
+  const privatePath = path.join(keysDir, 'private.pem');
+  if (fs.existsSync(privatePath)) {
+    return crypto.createPrivateKey(fs.readFileSync(privatePath, 'utf8'));
+  }
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' };
+
+  fs.mkdirSync(keysDir, { recursive: true });
+  fs.writeFileSync(privatePath, privateKey.export({ format: 'pem', type: 'pkcs8' }), { mode: 0o600 });
+  fs.writeFileSync(path.join(keysDir, 'jwks.json'), JSON.stringify({ keys: [jwk] }, null, 2));
+  console.error(`Created a test key pair in ${keysDir}`);
+
+  return privateKey;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const keysDir = path.resolve(args.keys || '.pubsub-test-keys');
+  const audience = args.audience || process.env.PUBSUB_AUDIENCE ||
+    `${(process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/+$/, '')}/api/gmail-webhook`;
+  const email = args.email || process.env.PUBSUB_SERVICE_ACCOUNT_EMAIL || 'pubsub-push@example.iam.gserviceaccount.com';
+  const now = Math.floor(Date.now() / 1000);
+
+  const header = base64url({ alg: 'RS256', kid: KEY_ID, typ: 'JWT' });
+  const payload = base64url({
+    iss: 'https://accounts.google.com',
+    aud: audience,
+    sub: '100000000000000000000',
+    email,
+    email_verified: true,
+    iat: now,
+    exp: now + parseInt(args['expires-in'] || '3600', 10)
+  });
+
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), loadPrivateKey(keysDir));
+  console.log(`${header}.${payload}.${signature.toString('base64url')}`);
+}
+
+main();
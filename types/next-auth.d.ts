@@ -4,7 +4,8 @@ import { JWT } from 'next-auth/jwt'
 declare module 'next-auth' {
   interface Session {
     accessToken?: string
-    refreshToken?: string
+    // 'RefreshAccessTokenError' when the access token expired and could not be refreshed
+    error?: string
     user: {
       id: string
     } & DefaultSession['user']
@@ -14,6 +15,8 @@ declare module 'next-auth' {
 declare module 'next-auth/jwt' {
   interface JWT {
     accessToken?: string
-    refreshToken?: string
+    // Epoch milliseconds
+    accessTokenExpires?: number
+    error?: string
   }
 }
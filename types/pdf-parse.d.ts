@@ -9,7 +9,7 @@ declare module 'pdf-parse' {
   }
 
   interface PDFOptions {
-    pagerender?: (pageData: any) => Promise<void>;
+    pagerender?: (pageData: any) => Promise<string | void>;
     max?: number;
     version?: string;
   }
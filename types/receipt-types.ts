@@ -3,10 +3,20 @@ export interface EmailData {
   sender: string;
   subject: string;
   date: Date;
-  pdfAttachments: PdfAttachment[];
+  attachments: DocumentAttachment[];
+  // Used for receipts sent as the message itself when there is no attachment
+  body?: EmailBody;
 }
 
-export interface PdfAttachment {
+export interface EmailBody {
+  content: string;
+  mimeType: 'text/html' | 'text/plain';
+}
+
+/**
+ * An email attachment that may hold a receipt: a PDF or a photo (JPEG, PNG, HEIC)
+ */
+export interface DocumentAttachment {
   filename: string;
   data: Buffer;
   contentType: string;
@@ -21,15 +31,49 @@ export interface LLMClassificationResult {
 }
 
 export interface LLMExtractionResult {
-  merchantName?: string;
-  transactionDate?: string;
-  totalAmount?: number;
+  merchantName: string;
+  transactionDate: string;
+  totalAmount: number;
+  // Absent when the receipt does not show them
   taxAmount?: number;
   subtotal?: number;
   lineItems?: Array<{name: string, price: number, quantity?: number}>;
   paymentMethod?: string;
   confidence: number;
   extractionIssues: string[];
+  // Per-field agreement between runs, set by self-consistency extraction
+  fieldConfidence?: FieldConfidence;
+}
+
+export type ConfidenceField = 'merchantName' | 'transactionDate' | 'totalAmount' | 'taxAmount' | 'paymentMethod';
+
+/**
+ * Share of extraction runs (0-100) that agreed with the stored value of each field
+ */
+export type FieldConfidence = Record<ConfidenceField, number>;
+
+/**
+ * Extraction result for one chunk of a long document. Header fields and
+ * totals are null when they do not appear in that chunk.
+ */
+export interface LLMChunkExtractionResult {
+  merchantName: string | null;
+  transactionDate: string | null;
+  totalAmount: number | null;
+  taxAmount: number | null;
+  subtotal: number | null;
+  lineItems: LineItem[];
+  paymentMethod: string | null;
+  confidence: number;
+  extractionIssues: string[];
+}
+
+export interface DocumentChunk {
+  index: number;
+  count: number;
+  // 1-based, inclusive page range covered by the chunk
+  startPage: number;
+  endPage: number;
 }
 
 export interface LineItem {
@@ -38,6 +82,25 @@ export interface LineItem {
   quantity?: number;
 }
 
+// How the document text was obtained: the PDF's own text layer (as plain
+// text or as a layout-preserving grid), OCR, or conversion of an HTML or
+// plain-text email body
+export type TextExtractionMethod = 'text_layer' | 'layout' | 'ocr' | 'html' | 'plain_text';
+
+// How PDF text layers are rendered: 'plain' joins each line's text, 'layout'
+// keeps line breaks and column positions
+export type TextLayoutMode = 'plain' | 'layout';
+
+/**
+ * Options chosen for one run of the processing pipeline
+ */
+export interface ProcessingOptions {
+  textLayout?: TextLayoutMode;
+}
+
+// Where a receipt came from: a file attached to the email or the email body
+export type DocumentSource = 'attachment' | 'email_body';
+
 export interface LedgerEntry {
   id: number;
   emailId: string;
@@ -45,14 +108,76 @@ export interface LedgerEntry {
   merchantName: string;
   transactionDate: string;
   totalAmount: number;
-  taxAmount: number;
-  subtotal: number;
-  paymentMethod: string;
+  // Null when the receipt does not show them
+  taxAmount: number | null;
+  subtotal: number | null;
+  paymentMethod: string | null;
   lineItems: LineItem[];
   llmConfidence: number;
   createdAt: string;
   rawText: string;
   llmExtractionIssues?: string[];
+  promptVersion?: string;
+  fieldConfidence?: FieldConfidence;
+  extractionMethod?: TextExtractionMethod;
+  // Mean OCR word confidence (0-100) when the text came from OCR
+  ocrConfidence?: number;
+  source?: DocumentSource;
+  // Page range within the file, for files split into several receipts
+  pageStart?: number;
+  pageEnd?: number;
+  // Original file in the blob store, served by /api/ledger/[id]/document
+  documentHash?: string;
+  documentMimeType?: string;
+  // The ingestion (account, message, document) the row was extracted from
+  ingestionId?: number;
+  // Reprocessing results waiting for the user to keep or discard them
+  pendingRevisions?: number;
+}
+
+// 'pending' until the user keeps it ('accepted') or the current values
+// ('rejected'); 'superseded' holds values a later revision replaced
+export type RevisionStatus = 'pending' | 'accepted' | 'rejected' | 'superseded';
+
+// Reprocess from the ledger's stored text, or extract the text again from the
+// original document in the blob store
+export type ReprocessSource = 'text' | 'document';
+
+export interface ReprocessOptions extends ProcessingOptions {
+  source?: ReprocessSource;
+}
+
+/**
+ * Another extraction of a ledger receipt, kept alongside the ledger row until
+ * the user chooses between them
+ */
+export interface ReceiptRevision {
+  id: number;
+  ledgerId: number;
+  status: RevisionStatus;
+  // False when the new run no longer classifies the document as a receipt
+  isReceipt: boolean;
+  documentType?: string;
+  merchantName?: string;
+  transactionDate?: string;
+  totalAmount?: number;
+  taxAmount?: number | null;
+  subtotal?: number | null;
+  paymentMethod?: string | null;
+  lineItems: LineItem[];
+  llmConfidence?: number;
+  llmExtractionIssues: string[];
+  promptVersion?: string;
+  fieldConfidence?: FieldConfidence;
+  // Provider and model of the run, e.g. 'openai/gpt-4o-mini'
+  model?: string;
+  // Set when the text was extracted again from the original document
+  rawText?: string;
+  extractionMethod?: TextExtractionMethod;
+  ocrConfidence?: number;
+  jobId?: number;
+  createdAt: string;
+  decidedAt?: string;
 }
 
 export interface ProcessingResult {
@@ -62,6 +187,8 @@ export interface ProcessingResult {
   data?: any;
   error?: any;
   processingTime?: number;
+  // Set on failures that may pass when retried later (LLM outages, unexpected errors)
+  retryable?: boolean;
 }
 
 export interface LedgerSummaryData {
@@ -91,6 +218,9 @@ export interface LedgerFilterOptions {
   minAmount?: number;
   maxAmount?: number;
   minConfidence?: number;
+  // Only receipts with a confidence lower than this
+  belowConfidence?: number;
+  ids?: number[];
   sortField?: string;
   sortDirection?: 'asc' | 'desc';
   page?: number;